@@ -0,0 +1,103 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Download, Upload } from "lucide-react";
+import { PracticeData, loadData, saveData } from "../lib/storage";
+import { BackupError, ImportMode, parseBackup, importPracticeData, downloadBackup } from "../lib/backup";
+
+interface BackupPanelProps {
+  onImported: () => void;
+}
+
+export default function BackupPanel({ onImported }: BackupPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<{ name: string; data: PracticeData } | null>(null);
+  const [error, setError] = useState<BackupError | null>(null);
+  const [message, setMessage] = useState("");
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setMessage("");
+    try {
+      setPending({ name: file.name, data: parseBackup(await file.text()) });
+    } catch (e) {
+      setError(e instanceof BackupError ? e : new BackupError("Couldn't read this file"));
+    }
+  };
+
+  const handleImport = (mode: ImportMode) => {
+    if (!pending) return;
+    saveData(importPracticeData(loadData(), pending.data, mode));
+    setMessage(`Imported ${pending.data.history.length} songs from ${pending.name}`);
+    setPending(null);
+    onImported();
+  };
+
+  return (
+    <div className="text-xs text-zinc-500 space-y-2">
+        <div className="flex items-center justify-center gap-4">
+            <button
+                onClick={() => downloadBackup(loadData())}
+                className="flex items-center gap-1.5 hover:text-zinc-300 transition-colors"
+            >
+                <Download size={14} />
+                Export data
+            </button>
+            <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-1.5 hover:text-zinc-300 transition-colors"
+            >
+                <Upload size={14} />
+                Import data
+            </button>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                    handleFile(e.target.files?.[0]);
+                    e.target.value = ""; // Allow picking the same file again
+                }}
+            />
+        </div>
+
+        {pending && (
+            <div className="flex items-center justify-center gap-2 p-2 rounded-xl bg-zinc-900 border border-zinc-800 text-zinc-400">
+                <span>
+                    {pending.data.history.length} songs, {Object.keys(pending.data.videos).length} videos with settings.
+                </span>
+                <button onClick={() => handleImport("merge")} className="px-2 py-1 rounded bg-blue-600 hover:bg-blue-500 text-white">
+                    Merge
+                </button>
+                <button
+                    onClick={() => handleImport("replace")}
+                    className="px-2 py-1 rounded bg-zinc-800 hover:bg-red-900/50 text-zinc-300"
+                    title="Discard everything saved in this browser and use the file instead"
+                >
+                    Replace
+                </button>
+                <button onClick={() => setPending(null)} className="px-2 py-1 hover:text-white">
+                    Cancel
+                </button>
+            </div>
+        )}
+
+        {message && <p className="text-center text-emerald-500">{message}</p>}
+
+        {error && (
+            <div className="text-left p-2 rounded-xl bg-red-950/30 border border-red-900/50 text-red-400">
+                <p className="font-medium">{error.message}</p>
+                {error.problems.length > 0 && (
+                    <ul className="mt-1 list-disc list-inside font-mono text-[10px] text-red-400/80 max-h-24 overflow-y-auto">
+                        {error.problems.slice(0, 20).map((problem) => (
+                            <li key={problem}>{problem}</li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Upload, Trash2 } from "lucide-react";
+import clsx from "clsx";
+import {
+  ClickRole,
+  ClickSoundSettings,
+  BUILT_IN_SOUNDS,
+  CLICK_KITS,
+  CLICK_ROLES,
+  DEFAULT_CLICK_SOUNDS,
+  findKit,
+  sampleSoundId,
+} from "../lib/clickSounds";
+import { CustomSample, loadSamples, addSample, deleteSample } from "../lib/samples";
+
+interface ClickSoundPanelProps {
+  settings: ClickSoundSettings;
+  onChange: (settings: ClickSoundSettings) => void;
+  onPreview: (role: ClickRole, settings: ClickSoundSettings) => void;
+}
+
+export default function ClickSoundPanel({ settings, onChange, onPreview }: ClickSoundPanelProps) {
+  const [samples, setSamples] = useState<CustomSample[]>([]);
+  const [error, setError] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const kit = findKit(settings);
+
+  useEffect(() => {
+    loadSamples()
+      .then(setSamples)
+      .catch(() => setError("Couldn't load your samples"));
+  }, []);
+
+  const changeSound = (role: ClickRole, soundId: string) => {
+    const next = { ...settings, [role]: soundId };
+    onChange(next);
+    onPreview(role, next);
+  };
+
+  const handleUpload = async (file: File) => {
+    setError("");
+    try {
+      const sample = await addSample(file);
+      setSamples((current) => [...current, sample].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't add the sample");
+    }
+  };
+
+  const handleDeleteSample = (id: string) => {
+    setSamples((current) => current.filter((s) => s.id !== id));
+    deleteSample(id).catch(() => setError("Couldn't delete the sample"));
+    // Anything that was using it goes back to the default
+    const soundId = sampleSoundId(id);
+    const next = { ...settings };
+    CLICK_ROLES.forEach(({ id: role }) => {
+      if (next[role] === soundId) next[role] = DEFAULT_CLICK_SOUNDS[role];
+    });
+    onChange(next);
+  };
+
+  return (
+    <div className="w-full space-y-2 text-xs">
+        <div className="flex flex-wrap gap-1 justify-center">
+            {CLICK_KITS.map((option) => (
+                <button
+                    key={option.id}
+                    onClick={() => {
+                        const next = { ...settings, ...option.sounds };
+                        onChange(next);
+                        onPreview("accent", next);
+                    }}
+                    className={clsx(
+                        "px-2 py-1 rounded-md text-[10px] font-bold transition-colors",
+                        kit?.id === option.id ? "bg-blue-600/20 text-blue-400" : "bg-zinc-800 text-zinc-500 hover:text-white"
+                    )}
+                >
+                    {option.label}
+                </button>
+            ))}
+        </div>
+
+        {CLICK_ROLES.map(({ id: role, label }) => (
+            <label key={role} className="flex items-center gap-2 text-zinc-500">
+                <span className="w-20">{label}</span>
+                <select
+                    value={settings[role]}
+                    onChange={(e) => changeSound(role, e.target.value)}
+                    className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-zinc-300"
+                >
+                    {BUILT_IN_SOUNDS.map((sound) => (
+                        <option key={sound.id} value={sound.id}>{sound.label}</option>
+                    ))}
+                    {samples.length > 0 && (
+                        <optgroup label="Your samples">
+                            {samples.map((sample) => (
+                                <option key={sample.id} value={sampleSoundId(sample.id)}>{sample.name}</option>
+                            ))}
+                        </optgroup>
+                    )}
+                </select>
+            </label>
+        ))}
+
+        <label className="flex items-center gap-2 text-zinc-500">
+            <span className="w-20">Pan</span>
+            <span className="font-mono text-[10px]">L</span>
+            <input
+                type="range"
+                min="-1"
+                max="1"
+                step="0.1"
+                value={settings.pan}
+                onChange={(e) => onChange({ ...settings, pan: Number(e.target.value) })}
+                onDoubleClick={() => onChange({ ...settings, pan: 0 })}
+                className="flex-1 h-1 accent-zinc-500 bg-zinc-800 rounded-lg appearance-none cursor-pointer"
+                title="Click position in the headphones (double-click to center)"
+            />
+            <span className="font-mono text-[10px]">R</span>
+        </label>
+
+        <div className="space-y-1">
+            {samples.map((sample) => (
+                <div key={sample.id} className="flex items-center gap-2 text-zinc-400">
+                    <span className="flex-1 min-w-0 truncate">{sample.name}</span>
+                    <button
+                        onClick={() => handleDeleteSample(sample.id)}
+                        className="p-0.5 text-zinc-500 hover:text-red-400"
+                        title="Delete sample"
+                    >
+                        <Trash2 size={12} />
+                    </button>
+                </div>
+            ))}
+            <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-1 text-zinc-500 hover:text-white"
+            >
+                <Upload size={12} />
+                Upload a sample
+            </button>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept="audio/*"
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleUpload(file);
+                    e.target.value = "";
+                }}
+            />
+            {error && <p className="text-red-400">{error}</p>}
+        </div>
+    </div>
+  );
+}
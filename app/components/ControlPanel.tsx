@@ -1,13 +1,35 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
-import { Play, Pause, Repeat, RotateCcw, FastForward } from "lucide-react";
+import { useState, useRef, useMemo, useCallback, useEffect, memo } from "react";
+import { Play, Pause, Repeat, RotateCcw, FastForward, ZoomIn, ZoomOut, Focus, Expand } from "lucide-react";
+import { formatTime, formatTimecode, MIN_LOOP_LENGTH } from "../lib/time";
+import { TimelineView, fullView, panView, zoomView, zoomViewAt, fitView, isFullView } from "../lib/timeline";
+import { LoopSection } from "../lib/sections";
+import { PracticeNote } from "../lib/notes";
+import { SpeedTrainerState } from "../lib/speedTrainer";
+import { Routine, RoutineProgress } from "../lib/routines";
+import { TempoMap, SnapMode, getGridLines, snapTime } from "../lib/tempoMap";
+import TimecodeInput from "./TimecodeInput";
+
+const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2];
+// Skip individual beat ticks when they'd be packed too tightly to read
+const MAX_BEAT_TICKS = 400;
+// Holding still this long on the timeline opens the IN/OUT menu
+const LONG_PRESS_MS = 500;
+// Pixels a finger may wander before a press counts as a drag
+const LONG_PRESS_SLOP = 8;
+
+type TimelineGesture =
+  | { type: "seek" }
+  | { type: "pinch"; view: TimelineView; distance: number; time: number };
 
 interface ControlPanelProps {
   isPlaying: boolean;
   onPlayPause: () => void;
   duration: number;
-  currentTime: number;
+  // The playhead is drawn from this every animation frame rather than passed in, so
+  // playback doesn't re-render the panel (keep the other props stable for memo)
+  getTime: () => number;
   onSeek: (time: number) => void;
   loopStart: number;
   loopEnd: number;
@@ -19,13 +41,28 @@ interface ControlPanelProps {
   onPlaybackRateChange: (rate: number) => void;
   videoVolume: number;
   onVideoVolumeChange: (volume: number) => void;
+  sections: LoopSection[];
+  activeSectionId: string | null;
+  onSectionSelect: (id: string) => void;
+  notes: PracticeNote[];
+  activeNoteId: string | null;
+  onNoteSelect: (note: PracticeNote) => void;
+  trainer: SpeedTrainerState | null;
+  trainerRepsPerStep: number;
+  onTrainerMiss: () => void;
+  routine: Routine | null;
+  routineProgress: RoutineProgress | null;
+  onRoutineStop: () => void;
+  tempoMap: TempoMap | null;
+  snapMode: SnapMode;
+  onSnapModeChange: (mode: SnapMode) => void;
 }
 
-export default function ControlPanel({
+function ControlPanel({
   isPlaying,
   onPlayPause,
   duration,
-  currentTime,
+  getTime,
   onSeek,
   loopStart,
   loopEnd,
@@ -37,59 +74,214 @@ export default function ControlPanel({
   onPlaybackRateChange,
   videoVolume,
   onVideoVolumeChange,
+  sections,
+  activeSectionId,
+  onSectionSelect,
+  notes,
+  activeNoteId,
+  onNoteSelect,
+  trainer,
+  trainerRepsPerStep,
+  onTrainerMiss,
+  routine,
+  routineProgress,
+  onRoutineStop,
+  tempoMap,
+  snapMode,
+  onSnapModeChange,
 }: ControlPanelProps) {
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, "0")}`;
-  };
+  // The trainer moves in arbitrary steps, so make sure the current rate is always selectable
+  const rateOptions = PLAYBACK_RATES.includes(playbackRate)
+    ? PLAYBACK_RATES
+    : [...PLAYBACK_RATES, playbackRate].sort((a, b) => a - b);
 
   // Drag state
-  const [dragging, setDragging] = useState<"start" | "end" | null>(null);
+  const [dragging, setDragging] = useState<"start" | "end" | "view" | null>(null);
   const timelineRef = useRef<HTMLDivElement>(null);
+  const overviewRef = useRef<HTMLDivElement>(null);
 
-  const getPercent = (time: number) => (duration > 0 ? (time / duration) * 100 : 0);
+  // Pointers down on the timeline (id -> clientX): one seeks, two pinch-zoom
+  const pointersRef = useRef(new Map<number, number>());
+  const gestureRef = useRef<TimelineGesture | null>(null);
+  const longPressRef = useRef<{ timer: number; x: number } | null>(null);
+  // Where a long-press landed, while its IN/OUT menu is open
+  const [pressTime, setPressTime] = useState<number | null>(null);
 
-  // Global mouse handlers for dragging
-  useEffect(() => {
-    if (!dragging) return;
+  // Zoom: the window of the video the timeline shows (null shows all of it)
+  const [zoom, setZoom] = useState<TimelineView | null>(null);
+  const view = zoom ?? fullView(duration);
+  const viewSpan = view.end - view.start;
+  const isZoomed = zoom !== null;
 
-    const handleMouseMove = (e: MouseEvent) => {
-        if (!timelineRef.current || duration <= 0) return;
-        
-        const rect = timelineRef.current.getBoundingClientRect();
-        const offsetX = Math.max(0, Math.min(e.clientX - rect.left, rect.width));
-        const newTime = (offsetX / rect.width) * duration;
-
-        if (dragging === "start") {
-            const safeTime = Math.min(newTime, loopEnd - 0.5); // Min 0.5s gap
-            onLoopStartChange(Math.max(0, safeTime));
-        } else if (dragging === "end") {
-            const safeTime = Math.max(newTime, loopStart + 0.5);
-            onLoopEndChange(Math.min(duration, safeTime));
-        }
-    };
+  const getPercent = (time: number) => (viewSpan > 0 ? ((time - view.start) / viewSpan) * 100 : 0);
+  const getWidth = (span: number) => (viewSpan > 0 ? (span / viewSpan) * 100 : 0);
+  const getOverviewPercent = (time: number) => (duration > 0 ? (time / duration) * 100 : 0);
 
-    const handleMouseUp = () => {
-        setDragging(null);
-    };
+  // Center the zoomed window on the point under the pointer in the overview
+  const scrollOverviewTo = (clientX: number) => {
+    if (!overviewRef.current || duration <= 0 || !zoom) return;
+    const rect = overviewRef.current.getBoundingClientRect();
+    const time = ((clientX - rect.left) / rect.width) * duration;
+    setZoom(panView(zoom, time - (zoom.end - zoom.start) / 2, duration));
+  };
+
+  const timeAtX = (clientX: number) => {
+    const rect = timelineRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return view.start;
+    const offsetX = Math.max(0, Math.min(clientX - rect.left, rect.width));
+    return view.start + (offsetX / rect.width) * viewSpan;
+  };
+
+  const changeZoom = (next: TimelineView) => setZoom(isFullView(next, duration) ? null : next);
+
+  const handleZoom = (factor: number) => {
+    // Keep the playhead in place if it's on screen, otherwise the middle of the view
+    const currentTime = getTime();
+    const center = currentTime >= view.start && currentTime <= view.end ? currentTime : view.start + viewSpan / 2;
+    changeZoom(zoomView(view, factor, center, duration));
+  };
+
+  // Snap to the tempo map grid; holding Alt places the point freely
+  const snap = useCallback(
+    (time: number, bypass: boolean) => (tempoMap && !bypass ? snapTime(tempoMap, time, snapMode) : time),
+    [tempoMap, snapMode]
+  );
+
+  // --- Playhead: moved directly on the DOM every frame ---
 
-    window.addEventListener("mousemove", handleMouseMove);
-    window.addEventListener("mouseup", handleMouseUp);
+  const progressRef = useRef<HTMLDivElement>(null);
+  const playheadRef = useRef<HTMLDivElement>(null);
+  const seekInputRef = useRef<HTMLInputElement>(null);
+  const timeDisplayRef = useRef<HTMLSpanElement>(null);
+  const overviewPlayheadRef = useRef<HTMLDivElement>(null);
 
-    return () => {
-        window.removeEventListener("mousemove", handleMouseMove);
-        window.removeEventListener("mouseup", handleMouseUp);
+  useEffect(() => {
+    let rafId: number;
+    let lastTime: number | null = null;
+
+    const draw = () => {
+      const time = getTime();
+      if (time !== lastTime) {
+        lastTime = time;
+        const percent = viewSpan > 0 ? ((time - view.start) / viewSpan) * 100 : 0;
+        if (progressRef.current) progressRef.current.style.width = `${Math.max(0, Math.min(100, percent))}%`;
+        if (playheadRef.current) playheadRef.current.style.left = `${percent}%`;
+        if (seekInputRef.current) seekInputRef.current.value = String(Math.max(view.start, Math.min(view.end, time)));
+        if (timeDisplayRef.current) timeDisplayRef.current.textContent = isZoomed ? formatTimecode(time) : formatTime(time);
+        if (overviewPlayheadRef.current && duration > 0) overviewPlayheadRef.current.style.left = `${(time / duration) * 100}%`;
+      }
+      rafId = requestAnimationFrame(draw);
     };
-  }, [dragging, duration, loopEnd, loopStart, onLoopStartChange, onLoopEndChange]);
 
+    draw();
+    return () => cancelAnimationFrame(rafId);
+  }, [getTime, view.start, view.end, viewSpan, duration, isZoomed]);
+
+  const gridLines = useMemo(() => {
+    if (!tempoMap || view.end <= view.start) return [];
+    const lines = getGridLines(tempoMap, view.start, view.end);
+    return lines.length > MAX_BEAT_TICKS ? lines.filter((l) => l.isBar) : lines;
+  }, [tempoMap, view.start, view.end]);
+
+  // --- Loop handles and overview: pointer capture keeps the drag on the element ---
 
-  const handleHandleMouseDown = (e: React.MouseEvent, type: "start" | "end") => {
-      e.stopPropagation(); // Prevent seek input from catching this
+  const handleDragStart = (e: React.PointerEvent, type: "start" | "end" | "view") => {
+      e.stopPropagation(); // Keep the timeline from starting a seek
       e.preventDefault();
+      e.currentTarget.setPointerCapture(e.pointerId);
       setDragging(type);
+      if (type === "view") scrollOverviewTo(e.clientX);
+  };
+
+  const handleDragMove = (e: React.PointerEvent) => {
+      if (!dragging || duration <= 0) return;
+
+      if (dragging === "view") {
+          scrollOverviewTo(e.clientX);
+          return;
+      }
+
+      const newTime = snap(timeAtX(e.clientX), e.altKey);
+      if (dragging === "start") {
+          const safeTime = Math.min(newTime, loopEnd - MIN_LOOP_LENGTH);
+          onLoopStartChange(Math.max(0, safeTime));
+      } else {
+          const safeTime = Math.max(newTime, loopStart + MIN_LOOP_LENGTH);
+          onLoopEndChange(Math.min(duration, safeTime));
+      }
+  };
+
+  const handleDragEnd = () => setDragging(null);
+
+  // --- Timeline: seek, pinch-zoom and long-press ---
+
+  const cancelLongPress = () => {
+      if (longPressRef.current) window.clearTimeout(longPressRef.current.timer);
+      longPressRef.current = null;
+  };
+
+  const handleTimelinePointerDown = (e: React.PointerEvent) => {
+      if (duration <= 0 || e.button !== 0) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      const pointers = pointersRef.current;
+      pointers.set(e.pointerId, e.clientX);
+      setPressTime(null);
+
+      if (pointers.size === 2) {
+          // Second finger: stop seeking and zoom around the midpoint instead
+          cancelLongPress();
+          const [a, b] = [...pointers.values()];
+          gestureRef.current = { type: "pinch", view, distance: Math.abs(a - b), time: timeAtX((a + b) / 2) };
+          return;
+      }
+      if (pointers.size > 2) return;
+
+      const time = timeAtX(e.clientX);
+      gestureRef.current = { type: "seek" };
+      onSeek(time);
+      longPressRef.current = {
+          x: e.clientX,
+          timer: window.setTimeout(() => {
+              longPressRef.current = null;
+              gestureRef.current = null;
+              setPressTime(snap(time, e.altKey));
+          }, LONG_PRESS_MS),
+      };
   };
 
+  const handleTimelinePointerMove = (e: React.PointerEvent) => {
+      const pointers = pointersRef.current;
+      if (!pointers.has(e.pointerId)) return; // Hovering mouse
+      pointers.set(e.pointerId, e.clientX);
+      const gesture = gestureRef.current;
+
+      if (gesture?.type === "pinch") {
+          const rect = timelineRef.current?.getBoundingClientRect();
+          if (pointers.size < 2 || !rect) return;
+          const [a, b] = [...pointers.values()];
+          const factor = Math.max(1, gesture.distance) / Math.max(1, Math.abs(a - b));
+          const ratio = ((a + b) / 2 - rect.left) / rect.width;
+          changeZoom(zoomViewAt(gesture.view, factor, gesture.time, ratio, duration));
+      } else if (gesture?.type === "seek") {
+          if (longPressRef.current && Math.abs(e.clientX - longPressRef.current.x) > LONG_PRESS_SLOP) cancelLongPress();
+          onSeek(timeAtX(e.clientX));
+      }
+  };
+
+  const handleTimelinePointerUp = (e: React.PointerEvent) => {
+      pointersRef.current.delete(e.pointerId);
+      cancelLongPress();
+      // Lifting one finger of a pinch doesn't turn the other into a seek
+      if (pointersRef.current.size === 0) gestureRef.current = null;
+  };
+
+  const dropLoopPoint = (edge: "start" | "end") => {
+      if (pressTime === null) return;
+      if (edge === "start") onLoopStartChange(pressTime);
+      else onLoopEndChange(pressTime);
+      if (!isLooping) onToggleLoop();
+      setPressTime(null);
+  };
 
   return (
     <div className="w-full bg-zinc-900 border-t border-zinc-800 p-4 md:p-6 pb-8 md:pb-10 fixed bottom-0 left-0 z-50 glass-panel">
@@ -98,7 +290,11 @@ export default function ControlPanel({
         {/* Timeline / Scrubber */}
         <div 
             ref={timelineRef}
-            className="relative w-full h-16 flex items-center group select-none"
+            onPointerDown={handleTimelinePointerDown}
+            onPointerMove={handleTimelinePointerMove}
+            onPointerUp={handleTimelinePointerUp}
+            onPointerCancel={handleTimelinePointerUp}
+            className="relative w-full h-16 flex items-center group select-none overflow-x-clip touch-none cursor-pointer"
         >
            {/* Background Track */}
            <div className="absolute w-full h-2 bg-zinc-800 rounded-full overflow-hidden">
@@ -108,34 +304,77 @@ export default function ControlPanel({
                     className="absolute h-full bg-blue-900/40 border-l border-r border-blue-500/50"
                     style={{ 
                         left: `${getPercent(loopStart)}%`, 
-                        width: `${getPercent(loopEnd - loopStart)}%` 
+                        width: `${getWidth(loopEnd - loopStart)}%` 
                     }}
                   />
                 )}
+                {/* Beat / Bar Grid */}
+                {gridLines.map((line) => (
+                  <div
+                    key={line.time}
+                    className={`absolute h-full ${line.isBar ? 'w-px bg-zinc-400/60' : 'w-px bg-zinc-600/40'}`}
+                    style={{ left: `${getPercent(line.time)}%` }}
+                  />
+                ))}
                 {/* Play Progress */}
-                <div 
-                    className="absolute h-full bg-blue-600 rounded-l-full"
-                    style={{ width: `${getPercent(currentTime)}%` }}
-                />
+                <div ref={progressRef} className="absolute h-full bg-blue-600 rounded-l-full" />
            </div>
 
-           {/* Seek Input (z-10: Below handles, above background) */}
+           {/* Saved Sections (z-20: clickable strip above the track) */}
+           {sections.map((section) => (
+             <button
+               key={section.id}
+               onPointerDown={(e) => e.stopPropagation()}
+               onClick={() => onSectionSelect(section.id)}
+               title={`${section.name} (${formatTimecode(section.start)} - ${formatTimecode(section.end)})`}
+               className={`absolute -top-0.5 h-5 py-1.5 bg-clip-content rounded-sm z-20 transition-opacity ${section.id === activeSectionId ? 'opacity-100 ring-1 ring-white/70' : 'opacity-50 hover:opacity-80'}`}
+               style={{
+                   left: `${getPercent(section.start)}%`,
+                   width: `${getWidth(section.end - section.start)}%`,
+                   backgroundColor: section.color,
+               }}
+             />
+           ))}
+
+           {/* Notes (z-20): pins below the track, range notes as a bar under their span */}
+           {notes.map((note) => (
+             <button
+               key={note.id}
+               onPointerDown={(e) => e.stopPropagation()}
+               onClick={() => onNoteSelect(note)}
+               title={`${formatTimecode(note.time)}${note.end !== undefined ? ` - ${formatTimecode(note.end)}` : ""}: ${note.text}`}
+               className={`absolute bottom-1 h-4 z-20 flex items-end ${note.end === undefined ? '-translate-x-1/2 justify-center w-4' : ''} ${note.id === activeNoteId ? 'text-amber-300' : 'text-amber-500/70 hover:text-amber-400'}`}
+               style={{
+                   left: `${getPercent(note.time)}%`,
+                   ...(note.end !== undefined ? { width: `${getWidth(note.end - note.time)}%` } : {}),
+               }}
+             >
+               {note.end === undefined ? (
+                 <span className="w-0 h-0 border-x-4 border-x-transparent border-b-[6px] border-b-current" />
+               ) : (
+                 <span className="w-full h-1 rounded-full bg-current" />
+               )}
+             </button>
+           ))}
+
+           {/* Seek Input (z-10): kept for keyboard and screen readers, pointers are handled by the timeline */}
            <input
+             ref={seekInputRef}
              type="range"
-             min={0}
-             max={duration || 100}
-             value={currentTime}
+             min={view.start}
+             max={view.end || 100}
+             step="any"
+             defaultValue={view.start}
              onChange={(e) => onSeek(Number(e.target.value))}
-             className="absolute w-full h-full opacity-0 cursor-pointer z-10"
+             className="absolute w-full h-full opacity-0 pointer-events-none z-10"
+             aria-label="Seek"
            />
            
            {/* Playhead (Professional Line Scrubber) - z-[15] */}
            <div 
+               ref={playheadRef}
                className="absolute top-0 h-full pointer-events-none z-[15] flex flex-col items-center"
-               style={{ 
-                   left: `${getPercent(currentTime)}%`,
-                   transform: 'translateX(-50%)' 
-               }}
+               style={{ transform: 'translateX(-50%)' }}
            >
                 {/* The Knob */}
                 <div className="absolute -top-1.5 w-4 h-4 bg-blue-500 rounded-full shadow-md ring-2 ring-white transition-transform scale-100" />
@@ -149,25 +388,76 @@ export default function ControlPanel({
              <>
                {/* Loop Start Handle */}
                <div 
-                 onMouseDown={(e) => handleHandleMouseDown(e, "start")}
-                 className="absolute top-1/2 -translate-y-1/2 w-4 h-8 bg-blue-500/80 hover:bg-blue-400 border-2 border-white/80 rounded-md z-20 cursor-ew-resize shadow-lg flex items-center justify-center group/handle transition-colors backdrop-blur-sm"
+                 onPointerDown={(e) => handleDragStart(e, "start")}
+                 onPointerMove={handleDragMove}
+                 onPointerUp={handleDragEnd}
+                 onPointerCancel={handleDragEnd}
+                 className="absolute top-1/2 -translate-y-1/2 w-10 h-14 z-20 cursor-ew-resize touch-none flex items-center justify-center group/handle"
                  style={{ left: `${getPercent(loopStart)}%`, transform: 'translate(-50%, -50%)' }}
                >
-                   <div className="w-0.5 h-3 bg-black/20" />
+                   {/* Visible handle; the wrapper is a finger-sized hit area */}
+                   <div className="w-4 h-8 bg-blue-500/80 group-hover/handle:bg-blue-400 border-2 border-white/80 rounded-md shadow-lg flex items-center justify-center transition-colors backdrop-blur-sm">
+                       <div className="w-0.5 h-3 bg-black/20" />
+                   </div>
                </div>
                
                {/* Loop End Handle */}
                <div 
-                 onMouseDown={(e) => handleHandleMouseDown(e, "end")}
-                 className="absolute top-1/2 -translate-y-1/2 w-4 h-8 bg-blue-500/80 hover:bg-blue-400 border-2 border-white/80 rounded-md z-20 cursor-ew-resize shadow-lg flex items-center justify-center group/handle transition-colors backdrop-blur-sm"
+                 onPointerDown={(e) => handleDragStart(e, "end")}
+                 onPointerMove={handleDragMove}
+                 onPointerUp={handleDragEnd}
+                 onPointerCancel={handleDragEnd}
+                 className="absolute top-1/2 -translate-y-1/2 w-10 h-14 z-20 cursor-ew-resize touch-none flex items-center justify-center group/handle"
                  style={{ left: `${getPercent(loopEnd)}%`, transform: 'translate(-50%, -50%)' }}
                >
-                   <div className="w-0.5 h-3 bg-black/20" />
+                   {/* Visible handle; the wrapper is a finger-sized hit area */}
+                   <div className="w-4 h-8 bg-blue-500/80 group-hover/handle:bg-blue-400 border-2 border-white/80 rounded-md shadow-lg flex items-center justify-center transition-colors backdrop-blur-sm">
+                       <div className="w-0.5 h-3 bg-black/20" />
+                   </div>
                </div>
              </>
            )}
+
+           {/* Long-press Menu (z-30): drop an IN or OUT point where the finger landed */}
+           {pressTime !== null && (
+             <div
+               onPointerDown={(e) => e.stopPropagation()}
+               className="absolute -top-10 z-30 flex items-center gap-1 p-1 rounded-lg bg-zinc-800 border border-zinc-700 shadow-xl text-xs font-bold"
+               style={{ left: `${Math.max(5, Math.min(95, getPercent(pressTime)))}%`, transform: 'translateX(-50%)' }}
+             >
+               <button onClick={() => dropLoopPoint("start")} className="px-3 py-2 rounded bg-zinc-700 hover:bg-zinc-600">IN</button>
+               <span className="px-1 font-mono font-normal text-zinc-400">{formatTimecode(pressTime)}</span>
+               <button onClick={() => dropLoopPoint("end")} className="px-3 py-2 rounded bg-zinc-700 hover:bg-zinc-600">OUT</button>
+               <button onClick={() => setPressTime(null)} className="px-2 py-2 rounded text-zinc-400 hover:text-white" title="Close">×</button>
+             </div>
+           )}
         </div>
 
+        {/* Overview: the whole video, with the zoomed window (drag to scroll) */}
+        {isZoomed && (
+            <div
+                ref={overviewRef}
+                onPointerDown={(e) => handleDragStart(e, "view")}
+                onPointerMove={handleDragMove}
+                onPointerUp={handleDragEnd}
+                onPointerCancel={handleDragEnd}
+                className="relative w-full h-3 -mt-4 bg-zinc-800 rounded cursor-grab select-none touch-none"
+                title="Drag to scroll the timeline"
+            >
+                {isLooping && (
+                    <div
+                        className="absolute h-full bg-blue-900/60"
+                        style={{ left: `${getOverviewPercent(loopStart)}%`, width: `${getOverviewPercent(loopEnd - loopStart)}%` }}
+                    />
+                )}
+                <div
+                    className="absolute h-full border border-white/70 bg-white/10 rounded"
+                    style={{ left: `${getOverviewPercent(view.start)}%`, width: `${getOverviewPercent(viewSpan)}%` }}
+                />
+                <div ref={overviewPlayheadRef} className="absolute h-full w-0.5 bg-blue-400" />
+            </div>
+        )}
+
         {/* Controls Row */}
         <div className="flex flex-wrap items-center justify-between gap-4">
             
@@ -182,7 +472,28 @@ export default function ControlPanel({
 
                 {/* Time Display */}
                 <div className="font-mono text-zinc-400 text-sm">
-                    <span className="text-white">{formatTime(currentTime)}</span> / {formatTime(duration)}
+                    <span ref={timeDisplayRef} className="text-white" /> / {formatTime(duration)}
+                </div>
+
+                {/* Timeline Zoom */}
+                <div className="flex items-center gap-1 text-zinc-500">
+                    <button onClick={() => handleZoom(2)} disabled={!isZoomed} className="p-1 rounded hover:text-white disabled:opacity-40" title="Zoom out">
+                        <ZoomOut size={16} />
+                    </button>
+                    <button onClick={() => handleZoom(0.5)} disabled={duration <= 0} className="p-1 rounded hover:text-white disabled:opacity-40" title="Zoom in">
+                        <ZoomIn size={16} />
+                    </button>
+                    <button
+                        onClick={() => changeZoom(fitView(loopStart, loopEnd, duration))}
+                        disabled={!isLooping || duration <= 0}
+                        className="p-1 rounded hover:text-white disabled:opacity-40"
+                        title="Zoom to loop"
+                    >
+                        <Focus size={16} />
+                    </button>
+                    <button onClick={() => setZoom(null)} disabled={!isZoomed} className="p-1 rounded hover:text-white disabled:opacity-40" title="Show whole video">
+                        <Expand size={16} />
+                    </button>
                 </div>
             </div>
 
@@ -197,38 +508,34 @@ export default function ControlPanel({
                 </button>
                 {isLooping ? (
                     <div className="flex items-center gap-2 text-xs">
-                         <div className="flex flex-col gap-1">
-                            <label className="text-zinc-500 font-mono">IN</label>
-                            <input 
-                                type="number" 
-                                value={Math.floor(loopStart)}
-                                onChange={(e) => onLoopStartChange(Number(e.target.value))} 
-                                className="w-16 bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-center text-zinc-300 font-mono"
-                            />
-                         </div>
-                         <div className="flex flex-col gap-1">
-                            <label className="text-zinc-500 font-mono">OUT</label>
-                            <input 
-                                type="number" 
-                                value={Math.floor(loopEnd)}
-                                onChange={(e) => onLoopEndChange(Number(e.target.value))} 
-                                className="w-16 bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-center text-zinc-300 font-mono"
-                            />
-                         </div>
+                         <TimecodeInput label="IN" value={loopStart} onChange={onLoopStartChange} />
+                         <TimecodeInput label="OUT" value={loopEnd} onChange={onLoopEndChange} />
                          <button 
-                             onClick={() => { onLoopStartChange(currentTime); }} // Set In Point
+                             onClick={(e) => { onLoopStartChange(snap(getTime(), e.altKey)); }} // Set In Point
                              className="px-2 py-3 bg-zinc-700 hover:bg-zinc-600 rounded text-xs font-bold"
                              title="Set Loop Start to Current"
                          >
                              IN
                          </button>
                          <button 
-                             onClick={() => { onLoopEndChange(currentTime); }} // Set Out Point
+                             onClick={(e) => { onLoopEndChange(snap(getTime(), e.altKey)); }} // Set Out Point
                              className="px-2 py-3 bg-zinc-700 hover:bg-zinc-600 rounded text-xs font-bold"
                              title="Set Loop End to Current"
                          >
                              OUT
                          </button>
+                         {tempoMap && (
+                             <select
+                                 value={snapMode}
+                                 onChange={(e) => onSnapModeChange(e.target.value as SnapMode)}
+                                 className="bg-zinc-900 border border-zinc-700 rounded px-1 py-1 text-zinc-300"
+                                 title="Snap loop points (hold Alt to place freely)"
+                             >
+                                 <option value="bar">Snap: Bar</option>
+                                 <option value="beat">Snap: Beat</option>
+                                 <option value="off">Snap: Off</option>
+                             </select>
+                         )}
                     </div>
                 ) : (
                     <span className="text-xs text-zinc-600 px-2">Enable Loop to edit range</span>
@@ -236,6 +543,50 @@ export default function ControlPanel({
             </div>
 
             <div className="flex items-center gap-6">
+                {/* Speed Trainer Readout */}
+                {trainer && (
+                    <div className="flex items-center gap-3 bg-amber-500/10 border border-amber-500/30 rounded-xl px-3 py-1.5 text-xs font-mono">
+                        <div className="flex flex-col">
+                            <span className="text-amber-400 font-bold">{trainer.rate.toFixed(2)}x</span>
+                            <span className="text-zinc-400">
+                                {trainer.finished
+                                    ? `target · ${trainer.totalReps} reps`
+                                    : `rep ${trainer.cleanReps}/${trainerRepsPerStep} · ${trainer.totalReps} total`}
+                            </span>
+                        </div>
+                        <button
+                            onClick={onTrainerMiss}
+                            disabled={trainer.passMissed}
+                            className="px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-300 disabled:opacity-40"
+                            title="This pass wasn't clean, don't count it"
+                        >
+                            Miss
+                        </button>
+                    </div>
+                )}
+
+                {/* Routine Progress */}
+                {routine && routineProgress && (
+                    <div className="flex items-center gap-3 bg-emerald-500/10 border border-emerald-500/30 rounded-xl px-3 py-1.5 text-xs font-mono">
+                        <div className="flex flex-col">
+                            <span className="text-emerald-400 font-bold">
+                                {routineProgress.finished ? routine.name : routine.steps[routineProgress.stepIndex]?.name}
+                            </span>
+                            <span className="text-zinc-400">
+                                {routineProgress.finished
+                                    ? "done"
+                                    : `Step ${routineProgress.stepIndex + 1}/${routine.steps.length} · rep ${routineProgress.rep}/${routine.steps[routineProgress.stepIndex]?.reps}`}
+                            </span>
+                        </div>
+                        <button
+                            onClick={onRoutineStop}
+                            className="px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-300"
+                        >
+                            {routineProgress.finished ? "Close" : "Stop"}
+                        </button>
+                    </div>
+                )}
+
                 {/* Volume Control */}
                 <div className="flex items-center gap-2 w-32 group/vol">
                     {/* Placeholder Icon */}
@@ -258,7 +609,7 @@ export default function ControlPanel({
                         onChange={(e) => onPlaybackRateChange(Number(e.target.value))}
                         className="bg-zinc-800 text-sm font-medium text-white px-3 py-2 rounded-lg outline-none border border-zinc-700 focus:border-blue-500"
                     >
-                        {[0.25, 0.5, 0.75, 1, 1.25, 1.5, 2].map((rate) => (
+                        {rateOptions.map((rate) => (
                             <option key={rate} value={rate}>{rate}x</option>
                         ))}
                     </select>
@@ -269,3 +620,5 @@ export default function ControlPanel({
     </div>
   );
 }
+
+export default memo(ControlPanel);
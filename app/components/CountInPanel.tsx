@@ -0,0 +1,66 @@
+"use client";
+
+import clsx from "clsx";
+import { CountInSettings } from "../lib/countIn";
+
+interface CountInPanelProps {
+  settings: CountInSettings;
+  onChange: (settings: CountInSettings) => void;
+  bpm: number;
+  beatsPerBar: number;
+}
+
+export default function CountInPanel({ settings, onChange, bpm, beatsPerBar }: CountInPanelProps) {
+  return (
+    <div className="p-4 rounded-xl bg-zinc-800/20 border border-zinc-800 space-y-3">
+        <div className="flex items-center justify-between">
+            <h3 className="text-zinc-500 text-xs font-bold uppercase tracking-wider">Count-In</h3>
+            <button
+                onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+                className={clsx(
+                    "px-2 py-1 rounded-lg text-xs font-medium",
+                    settings.enabled ? "bg-blue-600/20 text-blue-400" : "bg-zinc-800 text-zinc-400 hover:text-white"
+                )}
+            >
+                {settings.enabled ? "On" : "Off"}
+            </button>
+        </div>
+
+        <div className="flex items-center gap-3 text-xs">
+            <div className="flex items-center gap-1 bg-zinc-800 rounded-lg p-1">
+                {[0, 1, 2].map((bars) => (
+                    <button
+                        key={bars}
+                        onClick={() => onChange({ ...settings, bars })}
+                        className={clsx(
+                            "px-2 py-0.5 rounded",
+                            settings.bars === bars ? "bg-zinc-700 text-white" : "text-zinc-500 hover:text-white"
+                        )}
+                    >
+                        {bars === 0 ? "Rest only" : `${bars} bar${bars > 1 ? "s" : ""}`}
+                    </button>
+                ))}
+            </div>
+            <label className="flex items-center gap-1 text-zinc-500 font-mono">
+                Rest
+                <input
+                    type="number"
+                    min={0}
+                    max={30}
+                    step={0.5}
+                    value={settings.restSeconds}
+                    onChange={(e) => onChange({ ...settings, restSeconds: Math.max(0, Number(e.target.value)) })}
+                    className="w-12 bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-center text-zinc-300"
+                />
+                s
+            </label>
+        </div>
+
+        <p className="text-[10px] text-zinc-600">
+            {settings.bars > 0
+                ? `On each loop: pause, count ${settings.bars * beatsPerBar} beats at ${Math.round(bpm)} BPM, then come back in on the one.`
+                : "On each loop: pause for the rest, then carry on."}
+        </p>
+    </div>
+  );
+}
@@ -1,47 +1,97 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { ArrowRight, Music2 } from "lucide-react";
+import { useState, useEffect, useRef, useMemo } from "react";
+import { ArrowRight, Music2, FileAudio } from "lucide-react";
+import clsx from "clsx";
+import { LOCAL_FILE_TYPES } from "../lib/player";
+import { HistoryEntry } from "../lib/storage";
+import { loadLibrary, saveLibrary } from "../lib/library";
+import { YouTubeLinkError, parseYouTubeUrl, linkSession } from "../lib/youtube";
+import { SessionOptions } from "../lib/sessionUrl";
+import { formatTime } from "../lib/time";
+import { Setlist, loadSetlists, saveSetlists } from "../lib/setlists";
+import BackupPanel from "./BackupPanel";
+import SetlistManager from "./SetlistManager";
+import Library from "./Library";
 
 interface LandingProps {
-  onVideoSelect: (videoId: string) => void;
+  onVideoSelect: (videoId: string, options?: SessionOptions) => void;
+  onFileSelect: (file: File) => void;
+  onSetlistPlay: (setlist: Setlist, index: number) => void;
 }
 
-export default function Landing({ onVideoSelect }: LandingProps) {
+export default function Landing({ onVideoSelect, onFileSelect, onSetlistPlay }: LandingProps) {
   const [url, setUrl] = useState("");
+  const [loopAround, setLoopAround] = useState(false);
   const [error, setError] = useState("");
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const [history, setHistory] = useState<{ id: string; title: string }[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
 
   useEffect(() => {
-    const stored = localStorage.getItem("drum_history");
-    if (stored) {
-        try {
-            setHistory(JSON.parse(stored));
-        } catch (e) {
-            console.error("Failed to load history", e);
-        }
-    }
+    setHistory(loadLibrary());
   }, []);
 
+  const handleLibraryChange = (entries: HistoryEntry[]) => {
+    setHistory(entries);
+    saveLibrary(entries);
+  };
+
+  const [setlists, setSetlists] = useState<Setlist[]>(loadSetlists);
+
+  const handleSetlistsChange = (next: Setlist[]) => {
+    setSetlists(next);
+    saveSetlists(next);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
 
-    // Simple regex for YouTube ID extraction (standard and short URLs)
-    const videoIdMatch = url.match(
-      /(?:https?:\/\/)?(?:www\.)?(?:youtube\.com\/(?:[^\/\n\s]+\/\S+\/|(?:v|e(?:mbed)?)\/|\S*?[?&]v=)|youtu\.be\/)([a-zA-Z0-9_-]{11})/
-    );
+    try {
+      const link = parseYouTubeUrl(url);
+      onVideoSelect(link.videoId, linkSession(link, loopAround));
+    } catch (e) {
+      setError(e instanceof YouTubeLinkError ? e.message : "Please enter a valid YouTube URL");
+    }
+  };
 
-    if (videoIdMatch && videoIdMatch[1]) {
-      onVideoSelect(videoIdMatch[1]);
-    } else {
-      setError("Please enter a valid YouTube URL");
+  // Parsed while typing, to offer the timestamp options before opening
+  const pastedLink = useMemo(() => {
+    try {
+      return parseYouTubeUrl(url);
+    } catch {
+      return null;
     }
+  }, [url]);
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith("audio/") && !file.type.startsWith("video/")) {
+      setError("Please choose an audio or video file (mp3, wav, mp4)");
+      return;
+    }
+    setError("");
+    onFileSelect(file);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files[0]);
   };
 
   return (
-    <div className="flex flex-col items-center justify-center min-h-screen p-6 text-center animate-in fade-in zoom-in duration-500">
+    <div
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={clsx(
+        "flex flex-col items-center justify-center min-h-screen p-6 text-center animate-in fade-in zoom-in duration-500 transition-colors",
+        isDragging && "bg-blue-950/30"
+      )}
+    >
       <div className="mb-8 p-4 bg-zinc-900/50 rounded-full border border-zinc-800">
         <Music2 className="w-12 h-12 text-blue-500" />
       </div>
@@ -72,27 +122,58 @@ export default function Landing({ onVideoSelect }: LandingProps) {
             </button>
         </form>
 
-        {history.length > 0 && (
-            <div className="relative group">
-                <select 
-                    onChange={(e) => {
-                        if (e.target.value) onVideoSelect(e.target.value);
-                    }}
-                    className="w-full appearance-none bg-zinc-900/50 border border-zinc-800 rounded-xl px-4 py-3 text-sm text-zinc-400 cursor-pointer hover:bg-zinc-800 outline-none focus:border-blue-500 transition-colors"
-                    defaultValue=""
-                >
-                    <option value="" disabled>Recent Songs...</option>
-                    {history.map((item) => (
-                        <option key={item.id} value={item.id}>
-                            {item.title}
-                        </option>
-                    ))}
-                </select>
-                <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-zinc-500">
-                    ▼
-                </div>
+        {pastedLink && (pastedLink.start !== undefined || pastedLink.playlistId) && (
+            <div className="flex items-center justify-center gap-4 text-xs text-zinc-400">
+                {pastedLink.start !== undefined && (
+                    <>
+                        <span>Starts at <span className="font-mono text-white">{formatTime(pastedLink.start)}</span></span>
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={loopAround}
+                                onChange={(e) => setLoopAround(e.target.checked)}
+                                className="accent-blue-500"
+                            />
+                            Loop around it
+                        </label>
+                    </>
+                )}
+                {pastedLink.playlistId && <span className="text-zinc-600">Opens this video from the playlist</span>}
             </div>
         )}
+
+        {/* Local File */}
+        <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className={clsx(
+                "w-full flex items-center justify-center gap-2 px-4 py-3 rounded-xl border border-dashed text-sm transition-colors",
+                isDragging ? "border-blue-500 text-blue-400" : "border-zinc-800 text-zinc-500 hover:text-zinc-300 hover:border-zinc-600"
+            )}
+        >
+            <FileAudio size={16} />
+            {isDragging ? "Drop to open" : "Open or drop an audio/video file"}
+        </button>
+        <input
+            ref={fileInputRef}
+            type="file"
+            accept={LOCAL_FILE_TYPES}
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+
+        {history.length > 0 && (
+            <Library entries={history} onChange={handleLibraryChange} onOpen={onVideoSelect} />
+        )}
+
+        <SetlistManager
+            setlists={setlists}
+            onChange={handleSetlistsChange}
+            onPlay={onSetlistPlay}
+            history={history}
+        />
+
+        <BackupPanel onImported={() => { setHistory(loadLibrary()); setSetlists(loadSetlists()); }} />
       </div>
       
       {error && (
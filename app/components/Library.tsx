@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import { Search, Star, Pencil, Trash2, Check } from "lucide-react";
+import clsx from "clsx";
+import { HistoryEntry } from "../lib/storage";
+import {
+  LibrarySort,
+  LIBRARY_SORTS,
+  entryTitle,
+  parseTags,
+  libraryTags,
+  filterLibrary,
+  updateEntry,
+  removeEntry,
+} from "../lib/library";
+import { formatDuration } from "../lib/time";
+
+interface LibraryProps {
+  entries: HistoryEntry[];
+  onChange: (entries: HistoryEntry[]) => void;
+  onOpen: (videoId: string) => void;
+}
+
+export default function Library({ entries, onChange, onOpen }: LibraryProps) {
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<LibrarySort>("recent");
+  const [tag, setTag] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const [draftTags, setDraftTags] = useState("");
+
+  const tags = libraryTags(entries);
+  const visible = filterLibrary(entries, query, sort, tag);
+
+  const startEditing = (entry: HistoryEntry) => {
+    setEditingId(entry.id);
+    setDraftTitle(entryTitle(entry));
+    setDraftTags((entry.tags ?? []).join(", "));
+  };
+
+  const commitEditing = (entry: HistoryEntry) => {
+    const title = draftTitle.trim();
+    onChange(updateEntry(entries, entry.id, {
+      // Typing the original title back clears the custom one
+      customTitle: title && title !== entry.title ? title : undefined,
+      tags: parseTags(draftTags),
+    }));
+    setEditingId(null);
+  };
+
+  return (
+    <div className="p-4 rounded-xl bg-zinc-900/50 border border-zinc-800 text-left space-y-3">
+        <div className="flex items-center justify-between">
+            <h3 className="text-zinc-500 text-xs font-bold uppercase tracking-wider">Library</h3>
+            <span className="text-[10px] text-zinc-600 font-mono">{entries.length} songs</span>
+        </div>
+
+        <div className="flex items-center gap-2">
+            <div className="flex-1 flex items-center gap-2 bg-zinc-900 border border-zinc-700 rounded-lg px-2 focus-within:border-blue-500">
+                <Search size={14} className="text-zinc-500" />
+                <input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search titles and tags"
+                    className="flex-1 min-w-0 bg-transparent py-1 text-sm text-zinc-300 outline-none"
+                />
+            </div>
+            <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value as LibrarySort)}
+                className="bg-zinc-900 border border-zinc-700 rounded-lg px-1 py-1 text-xs text-zinc-300"
+            >
+                {LIBRARY_SORTS.map(({ id, label }) => (
+                    <option key={id} value={id}>{label}</option>
+                ))}
+            </select>
+        </div>
+
+        {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+                {tags.map((t) => (
+                    <button
+                        key={t}
+                        onClick={() => setTag(tag === t ? null : t)}
+                        className={clsx(
+                            "px-2 py-0.5 rounded-full text-[10px]",
+                            tag === t ? "bg-blue-600 text-white" : "bg-zinc-800 text-zinc-400 hover:text-white"
+                        )}
+                    >
+                        {t}
+                    </button>
+                ))}
+            </div>
+        )}
+
+        {visible.length === 0 ? (
+            <p className="text-xs text-zinc-600">No songs match.</p>
+        ) : (
+            <ul className="space-y-1 max-h-80 overflow-y-auto">
+                {visible.map((entry) => (
+                    <li key={entry.id} className="group px-2 py-1.5 rounded-lg hover:bg-zinc-800/50 text-sm">
+                        {editingId === entry.id ? (
+                            <div className="space-y-1">
+                                <input
+                                    autoFocus
+                                    value={draftTitle}
+                                    onChange={(e) => setDraftTitle(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === "Enter") commitEditing(entry);
+                                        else if (e.key === "Escape") setEditingId(null);
+                                    }}
+                                    className="w-full bg-zinc-900 border border-zinc-700 rounded px-1 text-sm text-white outline-none focus:border-blue-500"
+                                />
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        value={draftTags}
+                                        onChange={(e) => setDraftTags(e.target.value)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === "Enter") commitEditing(entry);
+                                            else if (e.key === "Escape") setEditingId(null);
+                                        }}
+                                        placeholder="Tags, comma separated"
+                                        className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded px-1 text-xs text-zinc-300 outline-none focus:border-blue-500"
+                                    />
+                                    <button onClick={() => commitEditing(entry)} className="p-1 text-blue-400 hover:text-blue-300" title="Save">
+                                        <Check size={14} />
+                                    </button>
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="flex items-center gap-2">
+                                <button
+                                    onClick={() => onChange(updateEntry(entries, entry.id, { pinned: !entry.pinned || undefined }))}
+                                    className={clsx("p-0.5 shrink-0", entry.pinned ? "text-amber-400" : "text-zinc-600 hover:text-zinc-300")}
+                                    title={entry.pinned ? "Unpin" : "Pin to top"}
+                                >
+                                    <Star size={14} fill={entry.pinned ? "currentColor" : "none"} />
+                                </button>
+                                <button onClick={() => onOpen(entry.id)} className="flex-1 min-w-0 text-left">
+                                    <span className="block truncate text-zinc-300 group-hover:text-white">{entryTitle(entry)}</span>
+                                    <span className="flex items-center gap-2 text-[10px] text-zinc-600">
+                                        <span>{new Date(entry.timestamp).toLocaleDateString()}</span>
+                                        {entry.practiceSeconds ? <span>{formatDuration(entry.practiceSeconds)} practiced</span> : null}
+                                        {entry.tags?.map((t) => (
+                                            <span key={t} className="px-1.5 rounded-full bg-zinc-800 text-zinc-400">{t}</span>
+                                        ))}
+                                    </span>
+                                </button>
+                                <span className="flex items-center gap-1 md:opacity-0 md:group-hover:opacity-100 text-zinc-500">
+                                    <button onClick={() => startEditing(entry)} className="p-0.5 hover:text-white" title="Edit title and tags">
+                                        <Pencil size={12} />
+                                    </button>
+                                    <button onClick={() => onChange(removeEntry(entries, entry.id))} className="p-0.5 hover:text-red-400" title="Remove from library">
+                                        <Trash2 size={12} />
+                                    </button>
+                                </span>
+                            </div>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useEffect, useRef, useMemo, forwardRef, useImperativeHandle } from "react";
+import { Music2 } from "lucide-react";
+import { PlayerHandle, PlayerProps } from "../lib/player";
+
+interface MediaFilePlayerProps extends PlayerProps {
+  file: File;
+}
+
+// Plays a local audio/video file through a plain HTML media element
+const MediaFilePlayer = forwardRef<PlayerHandle, MediaFilePlayerProps>(
+  ({ file, playbackRate, onReady, onPlayingChange, onProgress, onEnded }, ref) => {
+    const mediaRef = useRef<HTMLMediaElement | null>(null);
+    const isVideo = file.type.startsWith("video/");
+
+    const src = useMemo(() => URL.createObjectURL(file), [file]);
+    useEffect(() => {
+      return () => URL.revokeObjectURL(src);
+    }, [src]);
+
+    // play() rejects when autoplay is blocked or a pause() gets in first; either way it isn't playing
+    const startPlayback = (media: HTMLMediaElement) => {
+      media.play().catch(() => onPlayingChange?.(false));
+    };
+
+    useImperativeHandle(ref, () => ({
+      play: () => {
+        if (mediaRef.current) startPlayback(mediaRef.current);
+      },
+      pause: () => {
+        mediaRef.current?.pause();
+      },
+      seekTo: (seconds: number) => {
+        if (mediaRef.current) mediaRef.current.currentTime = Math.max(0, seconds);
+      },
+      setVolume: (volume: number) => {
+        if (mediaRef.current) mediaRef.current.volume = volume / 100;
+      },
+      getCurrentTime: async () => {
+        return mediaRef.current?.currentTime || 0;
+      },
+    }));
+
+    // Sync playback rate when prop changes
+    useEffect(() => {
+      if (mediaRef.current) mediaRef.current.playbackRate = playbackRate;
+    }, [playbackRate]);
+
+    const handleLoadedMetadata = () => {
+      const media = mediaRef.current;
+      if (!media) return;
+      media.playbackRate = playbackRate;
+      if (onReady) onReady({ duration: media.duration, title: file.name });
+      startPlayback(media); // Auto-play, like the YouTube player
+    };
+
+    // Polling at the same rate as the YouTube player so both backends behave alike
+    useEffect(() => {
+      const interval = setInterval(() => {
+        if (mediaRef.current && onProgress) onProgress(mediaRef.current.currentTime);
+      }, 100); // 10Hz updates
+
+      return () => clearInterval(interval);
+    }, [onProgress]);
+
+    const mediaProps = {
+      src,
+      onLoadedMetadata: handleLoadedMetadata,
+      onPlay: () => onPlayingChange?.(true),
+      onPause: () => onPlayingChange?.(false),
+      onEnded: () => {
+        onPlayingChange?.(false);
+        onEnded?.();
+      },
+    };
+
+    return (
+      <div className="w-full h-full rounded-2xl overflow-hidden shadow-2xl bg-black flex items-center justify-center">
+        {isVideo ? (
+          <video
+            ref={(el) => { mediaRef.current = el; }}
+            {...mediaProps}
+            playsInline
+            className="w-full h-full object-contain"
+          />
+        ) : (
+          <>
+            <audio ref={(el) => { mediaRef.current = el; }} {...mediaProps} />
+            <div className="flex flex-col items-center gap-3 text-zinc-500">
+              <Music2 className="w-12 h-12 text-blue-500" />
+              <span className="text-sm font-medium text-zinc-300">{file.name}</span>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  }
+);
+
+MediaFilePlayer.displayName = "MediaFilePlayer";
+
+export default MediaFilePlayer;
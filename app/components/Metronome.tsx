@@ -1,40 +1,179 @@
 "use client";
 
-import { useEffect, useRef, useState, useCallback } from "react";
-import { Play, Pause, Volume2, VolumeX, HandMetal, Plus, Minus } from "lucide-react";
+import { useEffect, useRef, useState, useCallback, forwardRef, useImperativeHandle, ForwardedRef } from "react";
+import { Play, Pause, Volume2, VolumeX, HandMetal, Plus, Minus, Anchor, ChevronDown, ChevronRight } from "lucide-react";
 import clsx from "clsx";
-
-type BeatType = 0 | 1 | 2; // 0: Mute, 1: Normal, 2: Accent
+import {
+  VideoAnchor,
+  RESYNC_THRESHOLD,
+  DRIFT_TOLERANCE,
+  videoTimeAt,
+  audioTimeFor,
+  beatVideoTime,
+  firstBeatIndexFrom,
+  beatInBar,
+} from "../lib/videoSync";
+import {
+  SubdivisionId,
+  SUBDIVISIONS,
+  BeatType,
+  DENOMINATORS,
+  MAX_BEATS_PER_BAR,
+  DEFAULT_SWING,
+  MIN_SWING,
+  MAX_SWING,
+  getSubdivisionOffsets,
+  beatTempo,
+  defaultBeatPattern,
+  loadTimeSignature,
+  saveTimeSignature,
+} from "../lib/subdivisions";
+import type { ScheduledClick } from "../lib/timing";
+import type { CountInOptions } from "../lib/countIn";
+import type { PlaybackPosition } from "../lib/practiceSession";
+import {
+  ClickRole,
+  ClickSoundEngine,
+  ClickSoundSettings,
+  loadClickSoundSettings,
+  saveClickSoundSettings,
+  findKit,
+} from "../lib/clickSounds";
+import ClickSoundPanel from "./ClickSoundPanel";
+import {
+  TrainingSettings,
+  TrainingStatus,
+  DEFAULT_TRAINING,
+  TRAINING_MODES,
+  gapPhase,
+  rampProgress,
+  rampTempo,
+} from "../lib/trainingModes";
+import TrainingModePanel from "./TrainingModePanel";
+import { formatTime } from "../lib/time";
 
 interface ScheduledNote {
   time: number;
   beatIndex: number;
+  subIndex: number; // 0 is the beat itself, higher is a subdivision click
+  training?: TrainingStatus; // Set on downbeats while a training mode is on
+}
+
+interface MetronomeProps {
+  initialBpm?: number;
+  onBpmChange?: (bpm: number) => void;
+  onTimeSignatureChange?: (beatsPerBar: number, beatUnit: number) => void;
+  // Video timeline, used to lock the beat grid to the video. Omit to run free.
+  videoPosition?: PlaybackPosition;
+  videoIsPlaying?: boolean;
+  videoRate?: number;
+}
+
+// Lets keyboard shortcuts and the loop drive the metronome
+export interface MetronomeHandle {
+  togglePlaying: () => void;
+  tap: () => void;
+  // Resolves on the downbeat after the count-in, or with false if it was cancelled
+  countIn: (options: CountInOptions) => Promise<boolean>;
+  cancelCountIn: () => void;
+  setBpm: (bpm: number) => void;
+  // For timing analysis: the clock clicks are scheduled on, and each click
+  // (muted ones included) as it's scheduled
+  getAudioContext: () => AudioContext;
+  listenToClicks: (listener: (click: ScheduledClick) => void) => () => void;
+  // For latency calibration: a full-volume accent at `time` on that same clock, with the current sounds
+  playClickAt: (time: number) => void;
 }
 
-export default function Metronome() {
+function Metronome({
+  initialBpm = 120,
+  onBpmChange,
+  onTimeSignatureChange,
+  videoPosition,
+  videoIsPlaying = false,
+  videoRate = 1,
+}: MetronomeProps, ref: ForwardedRef<MetronomeHandle>) {
   const [isPlaying, setIsPlaying] = useState(false);
-  const [bpm, setBpm] = useState(120);
+  const [bpm, setBpm] = useState(initialBpm);
+
+  useEffect(() => {
+    onBpmChange?.(bpm);
+  }, [bpm, onBpmChange]);
   const [isMuted, setIsMuted] = useState(false);
   
   // Time Signature & Beat Pattern
-  // Default 4/4: Accent, Normal, Normal, Normal
-  const [beatPattern, setBeatPattern] = useState<BeatType[]>([2, 1, 1, 1]);
-  const beatPatternRef = useRef<BeatType[]>([2, 1, 1, 1]);
+  // Default 4/4: Accent, Normal, Normal, Normal. Kept from one session to the next.
+  const [beatPattern, setBeatPattern] = useState<BeatType[]>(() => loadTimeSignature().beatPattern);
+  const beatPatternRef = useRef<BeatType[]>(beatPattern);
   
   const [activeBeatIndex, setActiveBeatIndex] = useState<number>(-1);
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const nextNoteTimeRef = useRef(0);
   const currentBeatIndexRef = useRef(0); // Which beat in the measure are we on?
+  const currentSubIndexRef = useRef(0); // Which click within that beat?
+  const beatStartTimeRef = useRef(0); // When the current beat started
   const timerIDRef = useRef<number | null>(null);
   const notesQueue = useRef<ScheduledNote[]>([]); // Keep track of scheduled notes for visuals
   const visualRafId = useRef<number | null>(null);
+  const scheduledSources = useRef<{ node: AudioScheduledSourceNode; time: number }[]>([]);
+  const clickListenersRef = useRef(new Set<(click: ScheduledClick) => void>());
+
+  // Video Lock
+  // When locked, beats sit on a grid starting at `downbeat` (video seconds) and
+  // are placed on the audio clock through an anchor mapping video to audio time.
+  const canLock = videoPosition !== undefined;
+  const [isLocked, setIsLocked] = useState(false);
+  const [downbeat, setDownbeat] = useState(0);
+  const anchorRef = useRef<VideoAnchor | null>(null);
+  const nextLockedBeatRef = useRef(0); // Beat index (from the downbeat) to schedule next
+  const nextLockedSubRef = useRef(0);
+  const locked = canLock && isLocked;
+  // Locked clicks only run while the video is actually playing
+  const isRunning = isPlaying && (!locked || videoIsPlaying);
+
+  // Time Signature denominator: the beat unit. BPM counts quarter notes, so this sets the beat length.
+  const [denominator, setDenominator] = useState(() => loadTimeSignature().beatUnit);
+  const denominatorRef = useRef(denominator);
+  // Beats of the beat unit per minute, which the video grid runs on
+  const beatBpm = beatTempo(bpm, denominator);
+
+  // Subdivisions
+  // Read through refs by the scheduler so changing them doesn't restart the click
+  const [subdivision, setSubdivision] = useState<SubdivisionId>("none");
+  const [swing, setSwing] = useState(DEFAULT_SWING);
+  const [subVolumes, setSubVolumes] = useState([0.5, 0.5, 0.5, 0.5]); // One per click after the beat
+  const subOffsetsRef = useRef<number[]>([0]);
+  const subVolumesRef = useRef(subVolumes);
+  const subSoundsRef = useRef(SUBDIVISIONS[0].sounds);
+  const subdivisionCounts = SUBDIVISIONS.find((s) => s.id === subdivision)?.counts ?? [];
 
   // Sync ref with state
   useEffect(() => {
     beatPatternRef.current = beatPattern;
   }, [beatPattern]);
 
+  useEffect(() => {
+    denominatorRef.current = denominator;
+  }, [denominator]);
+
+  useEffect(() => {
+    onTimeSignatureChange?.(beatPattern.length, denominator);
+  }, [beatPattern.length, denominator, onTimeSignatureChange]);
+
+  useEffect(() => {
+    saveTimeSignature({ beatPattern, beatUnit: denominator });
+  }, [beatPattern, denominator]);
+
+  useEffect(() => {
+    subOffsetsRef.current = getSubdivisionOffsets(subdivision, swing);
+    subSoundsRef.current = SUBDIVISIONS.find((s) => s.id === subdivision)?.sounds ?? [];
+  }, [subdivision, swing]);
+
+  useEffect(() => {
+    subVolumesRef.current = subVolumes;
+  }, [subVolumes]);
+
   // Tap Tempo
   const tapTimesRef = useRef<number[]>([]);
   const lastTapRef = useRef<number>(0);
@@ -50,13 +189,107 @@ export default function Metronome() {
     volumeRef.current = volume;
   }, [volume]);
 
+  // Sounds
+  const soundEngineRef = useRef<ClickSoundEngine | null>(null);
+  const [clickSounds, setClickSounds] = useState<ClickSoundSettings>(loadClickSoundSettings);
+  const clickSoundsRef = useRef(clickSounds);
+  const [showSounds, setShowSounds] = useState(false);
+
+  useEffect(() => {
+    clickSoundsRef.current = clickSounds;
+    soundEngineRef.current?.setSettings(clickSounds);
+  }, [clickSounds]);
+
+  const handleClickSoundsChange = (settings: ClickSoundSettings) => {
+    setClickSounds(settings);
+    saveClickSoundSettings(settings);
+  };
+
+  // Training Modes
+  // Bars are counted from the first downbeat after the mode (or the click) starts
+  const [training, setTraining] = useState<TrainingSettings>(DEFAULT_TRAINING);
+  const [trainingStatus, setTrainingStatus] = useState<TrainingStatus | null>(null);
+  const [showTraining, setShowTraining] = useState(false);
+  const trainingRef = useRef(training);
+  const restartTrainingRef = useRef(true);
+  const trainingBarRef = useRef(0);
+  const trainingStartRef = useRef(0); // Audio time of the first bar
+  const barMutedRef = useRef(false);
+
+  useEffect(() => {
+    trainingRef.current = training;
+    restartTrainingRef.current = true;
+  }, [training]);
+
   // --- Logic ---
 
-  const scheduleNote = (time: number, beatIndex: number) => {
+  const ensureAudioContext = () => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+      soundEngineRef.current = new ClickSoundEngine(audioContextRef.current);
+      soundEngineRef.current.setSettings(clickSoundsRef.current);
+    }
+    if (audioContextRef.current.state === 'suspended') {
+      audioContextRef.current.resume();
+    }
+    return audioContextRef.current;
+  };
+
+  // Beat click, shared by the scheduler and the count-in. `count` is the beat number the voice says.
+  const playClick = (time: number, accent: boolean, count: number) => {
+    const engine = soundEngineRef.current;
+    if (!engine) return null;
+    // Base gain scaled by master volume; accents a little louder
+    const gain = (accent ? 1.0 : 0.6) * volumeRef.current;
+    return engine.play(time, accent ? "accent" : "normal", gain, { count });
+  };
+
+  // Called on each downbeat: moves the training bar counter on and decides what the bar does
+  const beginBar = (time: number): TrainingStatus | undefined => {
+    if (restartTrainingRef.current) {
+      restartTrainingRef.current = false;
+      trainingBarRef.current = 0;
+      trainingStartRef.current = time;
+    } else {
+      trainingBarRef.current += 1;
+    }
+    barMutedRef.current = false;
+
+    const { mode, gap, ramp } = trainingRef.current;
+    const bar = trainingBarRef.current;
+    if (mode === "gap") {
+      const phase = gapPhase(gap, bar);
+      barMutedRef.current = phase.muted;
+      return { mode, ...phase };
+    }
+    if (mode === "ramp" && !locked) {
+      const elapsed = time - trainingStartRef.current;
+      return {
+        mode,
+        bar: bar + 1,
+        elapsed,
+        bpm: Math.round(rampTempo(ramp, bar, elapsed)),
+        progress: rampProgress(ramp, bar, elapsed),
+      };
+    }
+  };
+
+  // Tempo of the beat being scheduled: the slider, unless a tempo ramp has taken over
+  const currentTempo = () => {
+    const { mode, ramp } = trainingRef.current;
+    if (mode !== "ramp" || locked || restartTrainingRef.current) return bpm;
+    const bars = trainingBarRef.current + currentBeatIndexRef.current / beatPatternRef.current.length;
+    return rampTempo(ramp, bars, beatStartTimeRef.current - trainingStartRef.current);
+  };
+
+  const scheduleNote = (time: number, beatIndex: number, subIndex: number = 0) => {
+    const training = beatIndex === 0 && subIndex === 0 ? beginBar(time) : undefined;
+
     // Record for visualizer
-    notesQueue.current.push({ time, beatIndex });
+    notesQueue.current.push({ time, beatIndex, subIndex, training });
+    clickListenersRef.current.forEach((listener) => listener({ time, beatIndex, subIndex }));
 
-    if (isMuted) return;
+    if (isMuted || barMutedRef.current) return;
     if (!audioContextRef.current) return;
 
     // Use ref to avoid closure staleness without dependency recreation
@@ -66,46 +299,138 @@ export default function Metronome() {
     if (beatIndex >= pattern.length) return;
 
     const type = pattern[beatIndex];
-    if (type === 0) return; // Mute
-
-    // Sound Synthesis
-    const osc = audioContextRef.current.createOscillator();
-    const envelope = audioContextRef.current.createGain();
-
-    // Accent: Higher pitch, slightly louder
-    // Normal: Lower pitch
-    osc.frequency.value = type === 2 ? 1000 : 800;
-    // Base gain scaled by master volume
-    const baseGain = type === 2 ? 1.0 : 0.6;
-    envelope.gain.value = baseGain * volumeRef.current;
-    
-    envelope.gain.exponentialRampToValueAtTime(0.001, time + 0.05);
+    if (type === 0) return; // Mute (the whole beat, subdivisions included)
+
+    if (subIndex === 0) {
+      const node = playClick(time, type === 2, beatIndex + 1);
+      if (node) scheduledSources.current.push({ node, time });
+      return;
+    }
+
+    // Subdivision: its own sound, with a volume per position
+    const subGain = subVolumesRef.current[subIndex - 1] ?? 0.5;
+    if (subGain === 0 || !soundEngineRef.current) return;
 
-    osc.connect(envelope);
-    envelope.connect(audioContextRef.current.destination);
+    const role = subSoundsRef.current[subIndex - 1] ?? "subdivision";
+    const node = soundEngineRef.current.play(time, role, 0.6 * subGain * volumeRef.current);
+    scheduledSources.current.push({ node, time });
+  };
 
-    osc.start(time);
-    osc.stop(time + 0.05);
+  // Silence clicks that were scheduled but haven't sounded yet (seek, pause, tempo change)
+  const cancelScheduledNotes = useCallback(() => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    const now = ctx.currentTime;
+    scheduledSources.current.forEach(({ node, time }) => {
+        if (time > now) {
+            try { node.stop(); } catch { /* already stopped */ }
+        }
+    });
+    scheduledSources.current = [];
+    notesQueue.current = notesQueue.current.filter((note) => note.time <= now);
+  }, []);
+
+  // Re-anchor to the video and pick up the grid from its current position
+  const resyncToVideo = useCallback((time: number, rate: number) => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    cancelScheduledNotes();
+    anchorRef.current = { audioTime: ctx.currentTime, videoTime: time, rate };
+    nextLockedBeatRef.current = firstBeatIndexFrom(time, downbeat, beatBpm);
+    nextLockedSubRef.current = 0;
+  }, [cancelScheduledNotes, downbeat, beatBpm]);
+
+  const scheduleLockedNotes = () => {
+    const ctx = audioContextRef.current;
+    const anchor = anchorRef.current;
+    if (!ctx || !anchor) return; // Waiting for the next video position
+
+    while (true) {
+      const beat = nextLockedBeatRef.current;
+      const sub = nextLockedSubRef.current;
+      const offsets = subOffsetsRef.current;
+      const videoTime = beatVideoTime(beat, downbeat, beatBpm) + (offsets[sub] ?? 0) * (60 / beatBpm);
+      const time = audioTimeFor(anchor, videoTime);
+      if (time >= ctx.currentTime + scheduleAheadTime) break;
+      // Skip clicks that are already behind us rather than playing them late
+      if (time >= ctx.currentTime) {
+        scheduleNote(time, beatInBar(beat, beatPatternRef.current.length), sub);
+      }
+      if (sub + 1 < offsets.length) {
+        nextLockedSubRef.current = sub + 1;
+      } else {
+        nextLockedSubRef.current = 0;
+        nextLockedBeatRef.current = beat + 1;
+      }
+    }
   };
 
   const nextNote = () => {
-    const secondsPerBeat = 60.0 / bpm;
-    nextNoteTimeRef.current += secondsPerBeat;
-    
-    // Increment beat index ref for the scheduler logic
-    // Use ref length to ensure we wrap correctly even if pattern changed mid-stream
-    currentBeatIndexRef.current = (currentBeatIndexRef.current + 1) % beatPatternRef.current.length;
+    const secondsPerBeat = 60.0 / beatTempo(currentTempo(), denominatorRef.current);
+    const offsets = subOffsetsRef.current;
+
+    if (currentSubIndexRef.current + 1 < offsets.length) {
+      currentSubIndexRef.current += 1;
+    } else {
+      currentSubIndexRef.current = 0;
+      beatStartTimeRef.current += secondsPerBeat;
+      // Increment beat index ref for the scheduler logic
+      // Use ref length to ensure we wrap correctly even if pattern changed mid-stream
+      currentBeatIndexRef.current = (currentBeatIndexRef.current + 1) % beatPatternRef.current.length;
+    }
+    nextNoteTimeRef.current = beatStartTimeRef.current + offsets[currentSubIndexRef.current] * secondsPerBeat;
   };
 
   const scheduler = useCallback(() => {
     if (!audioContextRef.current) return;
     
-    while (nextNoteTimeRef.current < audioContextRef.current.currentTime + scheduleAheadTime) {
-      scheduleNote(nextNoteTimeRef.current, currentBeatIndexRef.current);
-      nextNote();
+    if (locked) {
+      scheduleLockedNotes();
+    } else {
+      while (nextNoteTimeRef.current < audioContextRef.current.currentTime + scheduleAheadTime) {
+        scheduleNote(nextNoteTimeRef.current, currentBeatIndexRef.current, currentSubIndexRef.current);
+        nextNote();
+      }
     }
+    // Drop bookkeeping for clicks that have finished
+    const now = audioContextRef.current.currentTime;
+    scheduledSources.current = scheduledSources.current.filter((n) => n.time > now - 0.1);
     timerIDRef.current = window.setTimeout(scheduler, lookahead);
-  }, [bpm, isMuted]); // Note: beatPattern and volume removed from dependencies to prevent restart
+  }, [beatBpm, isMuted, locked, downbeat]); // Note: beatPattern and volume removed from dependencies to prevent restart
+
+  // --- Video Sync ---
+  // Follow the polled video position: small drift nudges the anchor,
+  // anything bigger (seek, loop wrap, rate change) resyncs the grid.
+  const syncToVideo = useCallback(() => {
+    const ctx = audioContextRef.current;
+    if (!locked || !videoPosition || !ctx) return;
+    const videoTime = videoPosition.getTime();
+
+    if (!videoIsPlaying) {
+      anchorRef.current = null;
+      return;
+    }
+
+    const anchor = anchorRef.current;
+    const now = ctx.currentTime;
+    if (!anchor || anchor.rate !== videoRate) {
+      resyncToVideo(videoTime, videoRate);
+      return;
+    }
+
+    const drift = Math.abs(videoTime - videoTimeAt(anchor, now));
+    if (drift > RESYNC_THRESHOLD) {
+      resyncToVideo(videoTime, videoRate);
+    } else if (drift > DRIFT_TOLERANCE) {
+      anchorRef.current = { audioTime: now, videoTime, rate: videoRate };
+    }
+  }, [videoPosition, videoIsPlaying, videoRate, locked, resyncToVideo]);
+
+  // On every progress report, without re-rendering the metronome for it
+  useEffect(() => {
+    syncToVideo();
+    return videoPosition?.subscribe(syncToVideo);
+  }, [videoPosition, syncToVideo]);
 
   // --- Visualizer Loop ---
   // Decoupled from audio thread for performance
@@ -118,7 +443,8 @@ export default function Metronome() {
           
           while (notesQueue.current.length && notesQueue.current[0].time < currentTime) {
               const playingNote = notesQueue.current[0];
-              setActiveBeatIndex(playingNote.beatIndex);
+              if (playingNote.subIndex === 0) setActiveBeatIndex(playingNote.beatIndex);
+              if (playingNote.training) setTrainingStatus(playingNote.training);
               notesQueue.current.shift(); // Remove handled note
               
               // Auto-clear highlight after short duration? 
@@ -130,7 +456,7 @@ export default function Metronome() {
           rafId = requestAnimationFrame(draw);
       };
 
-      if (isPlaying) {
+      if (isRunning) {
           rafId = requestAnimationFrame(draw);
       } else {
           setActiveBeatIndex(-1);
@@ -139,32 +465,35 @@ export default function Metronome() {
       return () => {
           if (rafId) cancelAnimationFrame(rafId);
       };
-  }, [isPlaying]);
+  }, [isRunning]);
 
 
   // --- Audio Lifecycle ---
   useEffect(() => {
-    if (isPlaying) {
-      if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-      }
-      if (audioContextRef.current.state === 'suspended') {
-        audioContextRef.current.resume();
-      }
+    if (isRunning) {
+      const ctx = ensureAudioContext();
       
       currentBeatIndexRef.current = 0;
-      nextNoteTimeRef.current = audioContextRef.current.currentTime + 0.05; // Brief delay start
+      currentSubIndexRef.current = 0;
+      nextNoteTimeRef.current = ctx.currentTime + 0.05; // Brief delay start
+      beatStartTimeRef.current = nextNoteTimeRef.current;
+      restartTrainingRef.current = true;
+      barMutedRef.current = false;
+      // Locked: the grid may have changed, so wait for a fresh video position
+      cancelScheduledNotes();
+      anchorRef.current = null;
       scheduler();
     } else {
       if (timerIDRef.current) {
         window.clearTimeout(timerIDRef.current);
       }
+      cancelScheduledNotes();
     }
 
     return () => {
       if (timerIDRef.current) window.clearTimeout(timerIDRef.current);
     };
-  }, [isPlaying, scheduler]);
+  }, [isRunning, scheduler, cancelScheduledNotes]);
 
   
   // --- Beat Pattern Interaction ---
@@ -182,10 +511,12 @@ export default function Metronome() {
   const changeTimeSignature = (delta: number) => {
       let newPattern = [...beatPattern];
       if (delta > 0) {
-          if (newPattern.length < 12) newPattern.push(1); // Max 12 beats
+          if (newPattern.length < MAX_BEATS_PER_BAR) newPattern.push(1);
       } else {
           if (newPattern.length > 1) newPattern.pop(); // Min 1 beat
       }
+      // In /8 and /16 the accents follow the grouping, which changes with the beat count
+      if (denominator >= 8) newPattern = defaultBeatPattern(newPattern.length, denominator);
       setBeatPattern(newPattern);
       
       // Safety: reset current index if out of bounds (though scheduler handles modulo)
@@ -195,6 +526,11 @@ export default function Metronome() {
   };
 
 
+  const changeBeatUnit = (unit: number) => {
+      setDenominator(unit);
+      setBeatPattern(defaultBeatPattern(beatPattern.length, unit));
+  };
+
   const handleTap = () => {
     const now = performance.now();
     const lastTap = lastTapRef.current;
@@ -212,6 +548,92 @@ export default function Metronome() {
     }
   };
 
+  // Play one click of a role so a new sound can be heard straight away
+  const previewSound = (role: ClickRole, settings: ClickSoundSettings) => {
+    const ctx = ensureAudioContext();
+    const engine = soundEngineRef.current;
+    if (!engine) return;
+    engine.setSettings(settings);
+    engine.preload(settings[role]).then(() => {
+      engine.play(ctx.currentTime + 0.02, role, (role === "normal" ? 0.6 : 1.0) * volumeRef.current);
+    });
+  };
+
+  // --- Count-In ---
+  // Clicks go straight onto the audio clock, and so does the downbeat that follows:
+  // a silent source ends on it, and the promise resolves from its onended.
+  // Its nodes are kept apart from the running click's, so each can be cancelled alone.
+  const countInSourcesRef = useRef<AudioScheduledSourceNode[]>([]);
+  const countInResolveRef = useRef<((completed: boolean) => void) | null>(null);
+
+  const cancelCountIn = () => {
+    countInSourcesRef.current.forEach((node) => {
+      node.onended = null;
+      try { node.stop(); } catch { /* already stopped */ }
+    });
+    countInSourcesRef.current = [];
+    if (countInResolveRef.current) {
+      countInResolveRef.current(false);
+      countInResolveRef.current = null;
+    }
+  };
+
+  const countIn = ({ bpm: countInBpm, beatsPerBar, bars, delay }: CountInOptions) => {
+    cancelCountIn();
+    const ctx = ensureAudioContext();
+    const secondsPerBeat = 60 / countInBpm;
+    const start = ctx.currentTime + delay + 0.05;
+    const beats = Math.max(0, Math.round(bars * beatsPerBar)); // 0 bars: just the rest
+
+    const sources: AudioScheduledSourceNode[] = [];
+    for (let beat = 0; beat < beats; beat++) {
+      const node = playClick(start + beat * secondsPerBeat, beat % beatsPerBar === 0, (beat % beatsPerBar) + 1);
+      if (node) sources.push(node);
+    }
+
+    // One beat on from the last click
+    const downbeat = start + beats * secondsPerBeat;
+    const marker = ctx.createConstantSource();
+    marker.offset.value = 0;
+    marker.connect(ctx.destination);
+    sources.push(marker);
+    countInSourcesRef.current = sources;
+
+    return new Promise<boolean>((resolve) => {
+      countInResolveRef.current = resolve;
+      marker.onended = () => {
+        marker.disconnect();
+        countInSourcesRef.current = [];
+        countInResolveRef.current = null;
+        resolve(true);
+      };
+      marker.start();
+      marker.stop(downbeat);
+    });
+  };
+
+  useImperativeHandle(ref, () => ({
+    togglePlaying: () => setIsPlaying((playing) => !playing),
+    tap: handleTap,
+    countIn,
+    cancelCountIn,
+    setBpm: (next: number) => setBpm(Math.min(300, Math.max(30, Math.round(next)))),
+    getAudioContext: ensureAudioContext,
+    listenToClicks: (listener) => {
+      clickListenersRef.current.add(listener);
+      return () => {
+        clickListenersRef.current.delete(listener);
+      };
+    },
+    playClickAt: (time: number) => {
+      ensureAudioContext();
+      soundEngineRef.current?.play(time, "accent", 1);
+    },
+  }));
+
+  // Only shown once the running click has reached a downbeat in the current mode
+  const counter = isRunning && trainingStatus?.mode === training.mode ? trainingStatus : null;
+
   return (
     <div className="flex flex-col items-center gap-6 p-5 rounded-xl bg-zinc-900/50 border border-zinc-800 backdrop-blur-sm w-full select-none">
         
@@ -225,10 +647,19 @@ export default function Metronome() {
                 >
                     <Minus size={14} />
                 </button>
-                <div className="flex items-center justify-center gap-1 w-10 text-xs font-mono">
-                    <span className="text-white w-3 text-right">{beatPattern.length}</span>
+                <div className="flex items-center justify-center gap-1 w-14 text-xs font-mono">
+                    <span className="text-white w-4 text-right">{beatPattern.length}</span>
                     <span className="text-zinc-600">/</span>
-                    <span className="text-white w-3 text-left">4</span>
+                    <select
+                        value={denominator}
+                        onChange={(e) => changeBeatUnit(Number(e.target.value))}
+                        className="bg-transparent text-white w-6 appearance-none cursor-pointer outline-none"
+                        title="Beat unit (BPM still counts quarter notes)"
+                    >
+                        {DENOMINATORS.map((d) => (
+                            <option key={d} value={d} className="bg-zinc-900">{d}</option>
+                        ))}
+                    </select>
                 </div>
                 <button 
                   onClick={() => changeTimeSignature(1)}
@@ -239,6 +670,44 @@ export default function Metronome() {
             </div>
         </div>
         
+        {/* Video Lock */}
+        {canLock && (
+            <div className="flex items-center gap-2 w-full text-xs">
+                <button
+                    onClick={() => setIsLocked(!isLocked)}
+                    className={clsx(
+                        "flex items-center gap-1.5 px-2 py-1 rounded-lg font-medium transition-colors",
+                        isLocked ? "bg-blue-600/20 text-blue-400" : "bg-zinc-800 text-zinc-400 hover:text-white"
+                    )}
+                    title="Follow the video instead of running free"
+                >
+                    <Anchor size={12} />
+                    Lock to video
+                </button>
+                {isLocked && (
+                    <>
+                        <span className="text-zinc-500 font-mono">1 @</span>
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.01}
+                            value={downbeat}
+                            onChange={(e) => setDownbeat(Math.max(0, Number(e.target.value)))}
+                            className="w-16 bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-center text-zinc-300 font-mono"
+                            title="Downbeat position in the video (seconds)"
+                        />
+                        <button
+                            onClick={() => setDownbeat(Math.round((videoPosition?.getTime() ?? 0) * 100) / 100)}
+                            className="px-2 py-1 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-300"
+                            title="Set downbeat to the current video position"
+                        >
+                            Here
+                        </button>
+                    </>
+                )}
+            </div>
+        )}
+
         {/* Beat Editor (Visual Measure) */}
         <div className="flex items-center justify-center gap-3 w-full flex-wrap min-h-[40px]">
              {beatPattern.map((type, index) => (
@@ -265,6 +734,122 @@ export default function Metronome() {
              ))}
         </div>
 
+        {/* Training Bar Counter */}
+        {counter?.mode === "gap" && (
+            <div className="flex items-center justify-center gap-2 w-full text-xs font-mono">
+                <span
+                    className={clsx(
+                        "px-2 py-0.5 rounded font-bold",
+                        counter.muted ? "bg-red-900/30 text-red-400" : "bg-emerald-900/30 text-emerald-400"
+                    )}
+                >
+                    {counter.muted ? "MUTE" : "PLAY"}
+                </span>
+                <span className="text-zinc-400">
+                    bar {counter.bar}{counter.length > 0 && ` / ${counter.length}`}
+                </span>
+            </div>
+        )}
+        {counter?.mode === "ramp" && (
+            <div className="w-full space-y-1 text-xs font-mono">
+                <div className="flex justify-between text-zinc-400">
+                    <span>
+                        bar {counter.bar}
+                        {training.ramp.unit === "bars"
+                            ? ` / ${training.ramp.length}`
+                            : ` · ${formatTime(counter.elapsed)} / ${formatTime(training.ramp.length * 60)}`}
+                    </span>
+                    <span className="text-white font-bold">{counter.progress >= 1 ? "done · " : ""}{counter.bpm} BPM</span>
+                </div>
+                <div className="h-1 bg-zinc-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500" style={{ width: `${counter.progress * 100}%` }} />
+                </div>
+            </div>
+        )}
+
+        {/* Subdivisions */}
+        <div className="w-full space-y-2">
+            <div className="flex flex-wrap gap-1 justify-center">
+                {SUBDIVISIONS.map((option) => (
+                    <button
+                        key={option.id}
+                        onClick={() => setSubdivision(option.id)}
+                        className={clsx(
+                            "px-2 py-1 rounded-md text-[10px] font-bold transition-colors",
+                            subdivision === option.id ? "bg-blue-600/20 text-blue-400" : "bg-zinc-800 text-zinc-500 hover:text-white"
+                        )}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+
+            {subdivisionCounts.length > 0 && (
+                <div className="flex items-end justify-center gap-3">
+                    {subdivisionCounts.map((count, i) => (
+                        <label key={i} className="flex flex-col items-center gap-1 text-[10px] font-mono text-zinc-500">
+                            <input
+                                type="range"
+                                min="0"
+                                max="1"
+                                step="0.1"
+                                value={subVolumes[i]}
+                                onChange={(e) => {
+                                    const next = [...subVolumes];
+                                    next[i] = Number(e.target.value);
+                                    setSubVolumes(next);
+                                }}
+                                className="w-12 h-1 accent-zinc-500 bg-zinc-800 rounded-lg appearance-none cursor-pointer"
+                                title={`"${count}" volume`}
+                            />
+                            {count}
+                        </label>
+                    ))}
+                    {subdivision === "swing" && (
+                        <label className="flex flex-col items-center gap-1 text-[10px] font-mono text-zinc-500">
+                            <input
+                                type="range"
+                                min={MIN_SWING}
+                                max={MAX_SWING}
+                                step="0.01"
+                                value={swing}
+                                onChange={(e) => setSwing(Number(e.target.value))}
+                                className="w-16 h-1 accent-blue-500 bg-zinc-800 rounded-lg appearance-none cursor-pointer"
+                                title="Swing amount (50% straight, 67% triplet shuffle)"
+                            />
+                            {Math.round(swing * 100)}%
+                        </label>
+                    )}
+                </div>
+            )}
+        </div>
+
+        {/* Sounds & Training */}
+        <div className="w-full space-y-2">
+            <button
+                onClick={() => setShowSounds(!showSounds)}
+                className="flex items-center gap-1 text-[10px] font-bold text-zinc-500 hover:text-white uppercase tracking-wider"
+            >
+                {showSounds ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                Sound: <span className="normal-case font-normal">{findKit(clickSounds)?.label ?? "Custom"}</span>
+            </button>
+            {showSounds && (
+                <ClickSoundPanel settings={clickSounds} onChange={handleClickSoundsChange} onPreview={previewSound} />
+            )}
+
+            {/* Training */}
+            <button
+                onClick={() => setShowTraining(!showTraining)}
+                className="flex items-center gap-1 text-[10px] font-bold text-zinc-500 hover:text-white uppercase tracking-wider"
+            >
+                {showTraining ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                Training: <span className="normal-case font-normal">{TRAINING_MODES.find((m) => m.id === training.mode)?.label}</span>
+            </button>
+            {showTraining && (
+                <TrainingModePanel settings={training} onChange={setTraining} bpm={bpm} canRamp={!locked} />
+            )}
+        </div>
+
         {/* Controls */}
         <div className="flex items-center gap-5 w-full justify-center">
             
@@ -313,7 +898,7 @@ export default function Metronome() {
         {/* BPM Slider */}
         <div className="w-full space-y-2">
             <div className="flex justify-between items-end px-1">
-                <span className="text-zinc-500 text-xs font-bold">TEMPO</span>
+                <span className="text-zinc-500 text-xs font-bold">TEMPO <span className="font-mono font-normal text-zinc-600">1/4 per min</span></span>
                 <span className="text-2xl font-mono font-bold text-white">{bpm}</span>
             </div>
             <input
@@ -331,3 +916,5 @@ export default function Metronome() {
     </div>
   );
 }
+
+export default forwardRef(Metronome);
@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Cable, Trash2 } from "lucide-react";
+import clsx from "clsx";
+import { COMMANDS, CommandId, ShortcutSettings, getCommandLabel } from "../lib/commands";
+import {
+  MidiAccessLike,
+  MidiBinding,
+  MidiTrigger,
+  bindTrigger,
+  countMidiInputs,
+  findMidiCommand,
+  formatTrigger,
+  isMidiSupported,
+  listenToMidi,
+  requestMidiAccess,
+} from "../lib/midi";
+
+interface MidiPanelProps {
+  bindings: MidiBinding[];
+  onBindingsChange: (bindings: MidiBinding[]) => void;
+  onCommand: (id: CommandId) => void;
+  shortcutSettings: ShortcutSettings; // For command labels
+}
+
+export default function MidiPanel({ bindings, onBindingsChange, onCommand, shortcutSettings }: MidiPanelProps) {
+  const [access, setAccess] = useState<MidiAccessLike | null>(null);
+  const [inputCount, setInputCount] = useState(0);
+  const [error, setError] = useState("");
+  const [learnCommand, setLearnCommand] = useState<CommandId>("playPause");
+  const [isLearning, setIsLearning] = useState(false);
+  const [lastTrigger, setLastTrigger] = useState<MidiTrigger | null>(null);
+
+  const handleConnect = async () => {
+    setError("");
+    try {
+      const midiAccess = await requestMidiAccess();
+      setAccess(midiAccess);
+      setInputCount(countMidiInputs(midiAccess));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't connect to MIDI");
+    }
+  };
+
+  // Incoming messages go through a ref so the listener always sees current bindings
+  const handleTrigger = (trigger: MidiTrigger) => {
+    setLastTrigger(trigger);
+    if (access) setInputCount(countMidiInputs(access));
+
+    if (isLearning) {
+      onBindingsChange(bindTrigger(bindings, trigger, learnCommand));
+      setIsLearning(false);
+      return;
+    }
+
+    const command = findMidiCommand(bindings, trigger);
+    if (command) onCommand(command);
+  };
+
+  const handleTriggerRef = useRef(handleTrigger);
+  useEffect(() => {
+    handleTriggerRef.current = handleTrigger;
+  });
+
+  useEffect(() => {
+    if (!access) return;
+    return listenToMidi(access, (trigger) => handleTriggerRef.current(trigger));
+  }, [access]);
+
+  const labelFor = (id: CommandId) => {
+    const command = COMMANDS.find((c) => c.id === id);
+    return command ? getCommandLabel(command, shortcutSettings) : id;
+  };
+
+  return (
+    <div className="p-4 rounded-xl bg-zinc-800/20 border border-zinc-800 space-y-3">
+        <div className="flex items-center justify-between">
+            <h3 className="text-zinc-500 text-xs font-bold uppercase tracking-wider">MIDI / Pedal</h3>
+            {access ? (
+                <span className="text-[10px] text-emerald-500 font-mono">{inputCount} input{inputCount === 1 ? "" : "s"}</span>
+            ) : (
+                <button
+                    onClick={handleConnect}
+                    disabled={!isMidiSupported()}
+                    className="flex items-center gap-1 px-2 py-1 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-xs text-zinc-300 disabled:opacity-40"
+                    title={isMidiSupported() ? "Connect MIDI devices" : "This browser doesn't support Web MIDI"}
+                >
+                    <Cable size={12} />
+                    Connect
+                </button>
+            )}
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {access && (
+            <>
+                {/* Learn */}
+                <div className="flex items-center gap-2 text-xs">
+                    <select
+                        value={learnCommand}
+                        onChange={(e) => setLearnCommand(e.target.value as CommandId)}
+                        className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded px-1 py-1 text-zinc-300"
+                    >
+                        {COMMANDS.map((command) => (
+                            <option key={command.id} value={command.id}>{getCommandLabel(command, shortcutSettings)}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => setIsLearning(!isLearning)}
+                        className={clsx(
+                            "px-2 py-1 rounded font-medium",
+                            isLearning ? "bg-blue-600 text-white animate-pulse" : "bg-zinc-800 hover:bg-zinc-700 text-zinc-300"
+                        )}
+                    >
+                        {isLearning ? "Hit a pad…" : "Learn"}
+                    </button>
+                </div>
+
+                {bindings.length > 0 && (
+                    <ul className="space-y-1 text-xs">
+                        {bindings.map((binding) => (
+                            <li key={formatTrigger(binding.trigger)} className="flex items-center justify-between gap-2 text-zinc-400">
+                                <span>{labelFor(binding.command)}</span>
+                                <span className="flex items-center gap-1">
+                                    <kbd className="bg-zinc-800 px-1 rounded font-mono text-[10px]">{formatTrigger(binding.trigger)}</kbd>
+                                    <button
+                                        onClick={() => onBindingsChange(bindings.filter((b) => b !== binding))}
+                                        className="p-0.5 text-zinc-500 hover:text-red-400"
+                                        title="Remove"
+                                    >
+                                        <Trash2 size={12} />
+                                    </button>
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {lastTrigger && (
+                    <p className="text-[10px] text-zinc-600 font-mono">Last: {formatTrigger(lastTrigger)}</p>
+                )}
+            </>
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import { Plus, Pencil, Trash2 } from "lucide-react";
+import clsx from "clsx";
+import { PracticeNote, sortNotes } from "../lib/notes";
+import { createId } from "../lib/storage";
+import { PlaybackPosition } from "../lib/practiceSession";
+import { formatTime } from "../lib/time";
+
+interface NotesPanelProps {
+  notes: PracticeNote[];
+  onChange: (notes: PracticeNote[]) => void;
+  onSelect: (note: PracticeNote) => void;
+  activeNoteId: string | null;
+  position: PlaybackPosition;
+  loopStart: number;
+  loopEnd: number;
+  isLooping: boolean;
+}
+
+export default function NotesPanel({
+  notes,
+  onChange,
+  onSelect,
+  activeNoteId,
+  position,
+  loopStart,
+  loopEnd,
+  isLooping,
+}: NotesPanelProps) {
+  const currentTime = useSyncExternalStore(position.subscribe, position.getTime, position.getTime);
+  const [draft, setDraft] = useState("");
+  const [coverLoop, setCoverLoop] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftText, setDraftText] = useState("");
+
+  const coversLoop = coverLoop && isLooping;
+
+  const handleAdd = () => {
+    const text = draft.trim();
+    if (!text) return;
+    const note: PracticeNote = coversLoop
+      ? { id: createId(), text, time: loopStart, end: loopEnd }
+      : { id: createId(), text, time: currentTime };
+    onChange(sortNotes([...notes, note]));
+    setDraft("");
+  };
+
+  const startEditing = (note: PracticeNote) => {
+    setEditingId(note.id);
+    setDraftText(note.text);
+  };
+
+  const commitEditing = () => {
+    const text = draftText.trim();
+    if (editingId && text) onChange(notes.map((n) => (n.id === editingId ? { ...n, text } : n)));
+    setEditingId(null);
+  };
+
+  return (
+    <div className="p-4 rounded-xl bg-zinc-800/20 border border-zinc-800">
+        <h3 className="text-zinc-500 text-xs font-bold uppercase tracking-wider mb-2">Notes</h3>
+
+        <div className="space-y-2 mb-3">
+            <div className="flex items-center gap-2">
+                <input
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === "Enter") handleAdd();
+                    }}
+                    placeholder={coversLoop ? `Note for ${formatTime(loopStart)}–${formatTime(loopEnd)}` : `Note at ${formatTime(currentTime)}`}
+                    className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-300 outline-none focus:border-blue-500"
+                />
+                <button
+                    onClick={handleAdd}
+                    disabled={!draft.trim()}
+                    className="p-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-300 disabled:opacity-40"
+                    title="Add note"
+                >
+                    <Plus size={14} />
+                </button>
+            </div>
+            <label className={clsx("flex items-center gap-2 text-xs", isLooping ? "text-zinc-400" : "text-zinc-600")}>
+                <input
+                    type="checkbox"
+                    checked={coverLoop}
+                    onChange={(e) => setCoverLoop(e.target.checked)}
+                    disabled={!isLooping}
+                    className="accent-blue-500"
+                />
+                Cover the whole loop
+            </label>
+        </div>
+
+        {notes.length === 0 ? (
+            <p className="text-xs text-zinc-600">Jot down what to work on where it happens. Notes show up on the timeline.</p>
+        ) : (
+            <ul className="space-y-1">
+                {notes.map((note) => (
+                    <li
+                        key={note.id}
+                        className={clsx(
+                            "flex items-start gap-2 px-2 py-1.5 rounded-lg text-sm group",
+                            note.id === activeNoteId ? "bg-zinc-800 text-white" : "text-zinc-400 hover:bg-zinc-800/50"
+                        )}
+                    >
+                        <span className="font-mono text-[10px] text-amber-400/80 shrink-0 pt-0.5">
+                            {formatTime(note.time)}{note.end !== undefined && `–${formatTime(note.end)}`}
+                        </span>
+
+                        {editingId === note.id ? (
+                            <input
+                                autoFocus
+                                value={draftText}
+                                onChange={(e) => setDraftText(e.target.value)}
+                                onBlur={commitEditing}
+                                onKeyDown={(e) => {
+                                    if (e.key === "Enter") commitEditing();
+                                    else if (e.key === "Escape") setEditingId(null);
+                                }}
+                                className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded px-1 text-sm text-white outline-none focus:border-blue-500"
+                            />
+                        ) : (
+                            <button
+                                onClick={() => onSelect(note)}
+                                onDoubleClick={() => startEditing(note)}
+                                className="flex-1 min-w-0 text-left break-words"
+                                title="Jump to this note"
+                            >
+                                {note.text}
+                            </button>
+                        )}
+
+                        <div className="flex items-center md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+                            <button
+                                onClick={() => startEditing(note)}
+                                className="p-0.5 text-zinc-500 hover:text-white"
+                                title="Edit"
+                            >
+                                <Pencil size={12} />
+                            </button>
+                            <button
+                                onClick={() => onChange(notes.filter((n) => n.id !== note.id))}
+                                className="p-0.5 text-zinc-500 hover:text-red-400"
+                                title="Delete"
+                            >
+                                <Trash2 size={12} />
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,428 @@
+"use client";
+
+import { RefObject, useEffect, useRef, useState } from "react";
+import { Mic, Square, Play, Trash2, Gauge } from "lucide-react";
+import clsx from "clsx";
+import { MetronomeHandle } from "./Metronome";
+import { Take, loadTakes, saveTake, deleteTake } from "../lib/takes";
+import {
+  RecordingSession,
+  isRecordingSupported,
+  openMicrophone,
+  closeMicrophone,
+  startRecording,
+  decodeRecording,
+  calibrateLatency,
+  loadRecordingLatency,
+  saveRecordingLatency,
+} from "../lib/recording";
+import { createId } from "../lib/storage";
+import { PlaybackPosition } from "../lib/practiceSession";
+import { formatTime } from "../lib/time";
+
+// How far the playhead may jump back before we call it a loop wrap or seek
+const WRAP_TOLERANCE = 0.5;
+
+interface RecorderPanelProps {
+  videoId: string;
+  metronomeRef: RefObject<MetronomeHandle | null>; // Calibration plays its clicks
+  loopStart: number;
+  loopEnd: number;
+  playbackRate: number;
+  position: PlaybackPosition;
+  isPlaying: boolean;
+  // Play the video over a take's range at its speed, and stop it again
+  onPlaySection: (start: number, end: number, rate: number) => void;
+  onStopSection: () => void;
+  onVideoGainChange: (gain: number) => void; // 0-1, from the video/take balance
+}
+
+// One pass over the loop, either being recorded or played back
+interface Pass {
+  start: number;
+  end: number;
+  entered: boolean; // The playhead has reached the range since the pass began
+  // Called with the player's reported position once it's playing in the range.
+  // Seeks take a variable while to land, so takes are lined up from here rather
+  // than from when the video was asked to play.
+  onEnter: (videoTime: number) => void;
+}
+
+interface ActiveRecording {
+  session: RecordingSession;
+  rate: number;
+  startedAt: number; // performance.now() once audio is being captured
+  videoStart?: number; // Set once the pass is entered
+}
+
+export default function RecorderPanel({
+  videoId,
+  metronomeRef,
+  loopStart,
+  loopEnd,
+  playbackRate,
+  position,
+  isPlaying,
+  onPlaySection,
+  onStopSection,
+  onVideoGainChange,
+}: RecorderPanelProps) {
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [isRecording, setIsRecording] = useState(false);
+  const [playingTakeId, setPlayingTakeId] = useState<string | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [latency, setLatency] = useState(loadRecordingLatency);
+  // 0: all video, 1: all take
+  const [balance, setBalance] = useState(0.5);
+  const [error, setError] = useState("");
+
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const buffersRef = useRef(new Map<string, AudioBuffer>());
+  const passRef = useRef<Pass | null>(null);
+  const recordingRef = useRef<ActiveRecording | null>(null);
+  const playbackRef = useRef<{ source: AudioBufferSourceNode; gain: GainNode; started: boolean } | null>(null);
+  const lastTimeRef = useRef(position.getTime());
+
+  const videoGain = Math.min(1, 2 * (1 - balance));
+  const takeGain = Math.min(1, 2 * balance);
+  const isBusy = isRecording || playingTakeId !== null || isCalibrating;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTakes(videoId)
+      .then((loaded) => {
+        if (!cancelled) setTakes(loaded);
+      })
+      .catch(() => setError("Couldn't load saved takes"));
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId]);
+
+  // Let go of the microphone and audio when leaving the video
+  useEffect(() => {
+    const buffers = buffersRef.current;
+    return () => {
+      recordingRef.current?.session.stop();
+      if (playbackRef.current?.started) playbackRef.current.source.stop();
+      if (streamRef.current) closeMicrophone(streamRef.current);
+      audioContextRef.current?.close();
+      buffers.clear();
+    };
+  }, []);
+
+  const getStream = async () => {
+    if (!streamRef.current) streamRef.current = await openMicrophone();
+    return streamRef.current;
+  };
+
+  const getAudioContext = () => {
+    if (!audioContextRef.current) audioContextRef.current = new AudioContext();
+    if (audioContextRef.current.state === "suspended") audioContextRef.current.resume();
+    return audioContextRef.current;
+  };
+
+  // --- Recording ---
+
+  const handleRecord = async () => {
+    setError("");
+    try {
+      const session = startRecording(await getStream());
+      const recording: ActiveRecording = { session, rate: playbackRate, startedAt: 0 };
+      recordingRef.current = recording;
+      setIsRecording(true);
+      await session.started;
+      recording.startedAt = performance.now();
+      passRef.current = {
+        start: loopStart,
+        end: loopEnd,
+        entered: false,
+        // Work back from the video to where it was when the recording began
+        onEnter: (videoTime) => {
+          const recorded = (performance.now() - recording.startedAt) / 1000;
+          recording.videoStart = videoTime - recorded * recording.rate;
+        },
+      };
+      onPlaySection(loopStart, loopEnd, playbackRate);
+    } catch (e) {
+      recordingRef.current = null;
+      setIsRecording(false);
+      setError(e instanceof Error ? e.message : "Couldn't start recording");
+    }
+  };
+
+  const finishRecording = async () => {
+    const recording = recordingRef.current;
+    const pass = passRef.current;
+    recordingRef.current = null;
+    passRef.current = null;
+    if (!recording) return;
+
+    const audio = await recording.session.stop();
+    setIsRecording(false);
+    if (!pass || !pass.entered || recording.videoStart === undefined || audio.size === 0) return;
+
+    const take: Take = {
+      id: createId(),
+      videoId,
+      start: pass.start,
+      end: pass.end,
+      rate: recording.rate,
+      videoStart: recording.videoStart,
+      recordedAt: Date.now(),
+      audio,
+    };
+    setTakes((current) => [take, ...current]);
+    saveTake(take).catch(() => setError("Couldn't save the take"));
+  };
+
+  // --- Playback ---
+
+  const finishTake = () => {
+    playbackRef.current = null;
+    passRef.current = null;
+    setPlayingTakeId(null);
+    onStopSection();
+  };
+
+  const stopTake = () => {
+    const playback = playbackRef.current;
+    if (!playback) return;
+    // Once it's playing onended does the rest
+    if (playback.started) playback.source.stop();
+    else finishTake();
+  };
+
+  const handlePlayTake = async (take: Take) => {
+    setError("");
+    const ctx = getAudioContext();
+    let buffer = buffersRef.current.get(take.id);
+    try {
+      if (!buffer) {
+        buffer = await decodeRecording(ctx, take.audio);
+        buffersRef.current.set(take.id, buffer);
+      }
+    } catch {
+      setError("This take couldn't be decoded");
+      return;
+    }
+
+    const gain = ctx.createGain();
+    gain.gain.value = takeGain;
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(gain);
+    gain.connect(ctx.destination);
+    source.onended = () => {
+      if (playbackRef.current?.source === source) finishTake();
+    };
+
+    const playback = { source, gain, started: false };
+    playbackRef.current = playback;
+    passRef.current = {
+      start: take.start,
+      end: take.end,
+      entered: false,
+      // Start the take at the point the video has reached. The recording runs late
+      // by the latency, so skip that much more of it (or wait, if it's ahead).
+      onEnter: (videoTime) => {
+        const offset = (videoTime - (take.videoStart ?? take.start)) / take.rate + latency / 1000;
+        source.start(ctx.currentTime + Math.max(0, -offset), Math.max(0, offset));
+        playback.started = true;
+      },
+    };
+    setPlayingTakeId(take.id);
+    onPlaySection(take.start, take.end, take.rate);
+  };
+
+  const handleDeleteTake = (id: string) => {
+    if (id === playingTakeId) stopTake();
+    buffersRef.current.delete(id);
+    setTakes((current) => current.filter((t) => t.id !== id));
+    deleteTake(id).catch(() => setError("Couldn't delete the take"));
+  };
+
+  // --- Following the video ---
+  // A pass ends when the playhead reaches the end of its range, wraps back to
+  // the start, or the video stops.
+
+  // `isReport` is set when called for a fresh progress report, rather than a re-render
+  const followVideo = (isReport: boolean) => {
+    const currentTime = position.getTime();
+    const lastTime = lastTimeRef.current;
+    lastTimeRef.current = currentTime;
+    const pass = passRef.current;
+    if (!pass) return;
+
+    if (!pass.entered) {
+      // Only near the start, so a stale position from before the seek doesn't count
+      if (isReport && isPlaying && currentTime >= pass.start && currentTime < Math.min(pass.end, pass.start + 1)) {
+        pass.entered = true;
+        pass.onEnter(currentTime);
+      }
+      return;
+    }
+
+    const ended = !isPlaying || currentTime >= pass.end || currentTime < lastTime - WRAP_TOLERANCE;
+    if (!ended) return;
+    if (recordingRef.current) finishRecording();
+    else stopTake();
+  };
+
+  // Checked on every progress report, and whenever the video starts or stops.
+  // Reports reach the latest followVideo through a ref rather than re-rendering the panel.
+  const followVideoRef = useRef(followVideo);
+  useEffect(() => {
+    followVideoRef.current = followVideo;
+    followVideoRef.current(false);
+  });
+
+  useEffect(() => position.subscribe(() => followVideoRef.current(true)), [position]);
+
+  // --- Balance ---
+
+  useEffect(() => {
+    if (playbackRef.current) playbackRef.current.gain.gain.value = takeGain;
+  }, [takeGain]);
+
+  useEffect(() => {
+    onVideoGainChange(playingTakeId ? videoGain : 1);
+  }, [playingTakeId, videoGain, onVideoGainChange]);
+
+  // --- Latency ---
+
+  const changeLatency = (value: number) => {
+    setLatency(value);
+    saveRecordingLatency(value);
+  };
+
+  const handleCalibrate = async () => {
+    const metronome = metronomeRef.current;
+    if (!metronome) return;
+    setError("");
+    setIsCalibrating(true);
+    try {
+      const clicks = { ctx: metronome.getAudioContext(), playClick: metronome.playClickAt };
+      changeLatency(await calibrateLatency(await getStream(), clicks));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Calibration failed");
+    } finally {
+      setIsCalibrating(false);
+    }
+  };
+
+  if (!isRecordingSupported()) {
+    return (
+      <div className="p-4 rounded-xl bg-zinc-800/20 border border-zinc-800">
+          <h3 className="text-zinc-500 text-xs font-bold uppercase tracking-wider mb-2">Recorder</h3>
+          <p className="text-xs text-zinc-600">This browser can&apos;t record audio.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 rounded-xl bg-zinc-800/20 border border-zinc-800 space-y-3">
+        <div className="flex items-center justify-between">
+            <h3 className="text-zinc-500 text-xs font-bold uppercase tracking-wider">Recorder</h3>
+            {isRecording ? (
+                <button
+                    onClick={() => finishRecording()}
+                    className="flex items-center gap-1 px-2 py-1 rounded-lg bg-red-600 text-xs text-white animate-pulse"
+                >
+                    <Square size={12} fill="currentColor" />
+                    Stop
+                </button>
+            ) : (
+                <button
+                    onClick={handleRecord}
+                    disabled={isBusy}
+                    className="flex items-center gap-1 px-2 py-1 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-xs text-red-400 disabled:opacity-40"
+                    title="Record yourself over one pass of the loop"
+                >
+                    <Mic size={12} />
+                    Record loop
+                </button>
+            )}
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {takes.length === 0 ? (
+            <p className="text-xs text-zinc-600">Play along while the loop runs, then listen back against the record.</p>
+        ) : (
+            <ul className="space-y-1 max-h-48 overflow-y-auto">
+                {takes.map((take) => (
+                    <li
+                        key={take.id}
+                        className={clsx(
+                            "flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm group",
+                            take.id === playingTakeId ? "bg-zinc-800 text-white" : "text-zinc-400 hover:bg-zinc-800/50"
+                        )}
+                    >
+                        <button
+                            onClick={() => (take.id === playingTakeId ? stopTake() : handlePlayTake(take))}
+                            disabled={isRecording || isCalibrating}
+                            className="p-0.5 text-blue-400 hover:text-blue-300 disabled:opacity-40"
+                            title={take.id === playingTakeId ? "Stop" : "Play with the video"}
+                        >
+                            {take.id === playingTakeId ? <Square size={12} fill="currentColor" /> : <Play size={12} fill="currentColor" />}
+                        </button>
+                        <span className="flex-1 min-w-0 truncate text-xs">
+                            {new Date(take.recordedAt).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" })}
+                        </span>
+                        <span className="font-mono text-[10px] text-zinc-500 shrink-0">
+                            {formatTime(take.start)}–{formatTime(take.end)}
+                        </span>
+                        {take.rate !== 1 && <span className="font-mono text-[10px] text-amber-400/80 shrink-0">{take.rate}x</span>}
+                        <button
+                            onClick={() => handleDeleteTake(take.id)}
+                            className="p-0.5 text-zinc-500 hover:text-red-400 md:opacity-0 md:group-hover:opacity-100"
+                            title="Delete take"
+                        >
+                            <Trash2 size={12} />
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        )}
+
+        <label className="flex items-center gap-2 text-[10px] font-bold text-zinc-500">
+            VIDEO
+            <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={balance}
+                onChange={(e) => setBalance(Number(e.target.value))}
+                className="flex-1 h-1 accent-zinc-500 bg-zinc-800 rounded-lg appearance-none cursor-pointer"
+                title="Video / take balance"
+            />
+            TAKE
+        </label>
+
+        <div className="flex items-center gap-2 text-xs text-zinc-400">
+            <span>Latency</span>
+            <input
+                type="number"
+                step={1}
+                value={latency}
+                onChange={(e) => changeLatency(Math.round(Number(e.target.value)))}
+                className="w-16 bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-center text-zinc-300 font-mono"
+                title="How late recordings run, in milliseconds"
+            />
+            <span className="text-zinc-600">ms</span>
+            <button
+                onClick={handleCalibrate}
+                disabled={isBusy}
+                className="ml-auto flex items-center gap-1 px-2 py-1 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-300 disabled:opacity-40"
+                title="Play metronome clicks through the speakers and time them coming back through the mic"
+            >
+                <Gauge size={12} />
+                {isCalibrating ? "Listening…" : "Calibrate"}
+            </button>
+        </div>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, ListOrdered, ChevronUp, ChevronDown, Trash2 } from "lucide-react";
+import clsx from "clsx";
+import { Routine, RoutineStep, DEFAULT_STEP_REPS } from "../lib/routines";
+import { createId } from "../lib/storage";
+import { formatTime } from "../lib/time";
+
+interface RoutinePanelProps {
+  routines: Routine[];
+  onChange: (routines: Routine[]) => void;
+  activeRoutineId: string | null;
+  onStart: (id: string) => void;
+  onStop: () => void;
+  // The current loop, used when adding a step
+  loopStart: number;
+  loopEnd: number;
+  playbackRate: number;
+  loopName?: string;
+}
+
+export default function RoutinePanel({
+  routines,
+  onChange,
+  activeRoutineId,
+  onStart,
+  onStop,
+  loopStart,
+  loopEnd,
+  playbackRate,
+  loopName,
+}: RoutinePanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(routines[0]?.id ?? null);
+  const selected = routines.find((r) => r.id === (activeRoutineId ?? selectedId)) ?? routines[0] ?? null;
+  const isActive = selected !== null && selected.id === activeRoutineId;
+
+  const updateRoutine = (routine: Routine) => {
+    onChange(routines.map((r) => (r.id === routine.id ? routine : r)));
+  };
+
+  const updateStep = (step: RoutineStep) => {
+    if (!selected) return;
+    updateRoutine({ ...selected, steps: selected.steps.map((s) => (s.id === step.id ? step : s)) });
+  };
+
+  const handleNew = () => {
+    const routine: Routine = { id: createId(), name: `Routine ${routines.length + 1}`, steps: [] };
+    onChange([...routines, routine]);
+    setSelectedId(routine.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    const next = routines.filter((r) => r.id !== selected.id);
+    onChange(next);
+    setSelectedId(next[0]?.id ?? null);
+  };
+
+  const handleAddStep = () => {
+    if (!selected) return;
+    updateRoutine({
+      ...selected,
+      steps: [
+        ...selected.steps,
+        {
+          id: createId(),
+          name: loopName ?? `Step ${selected.steps.length + 1}`,
+          start: loopStart,
+          end: loopEnd,
+          reps: DEFAULT_STEP_REPS,
+          rate: playbackRate,
+        },
+      ],
+    });
+  };
+
+  const handleMoveStep = (index: number, direction: -1 | 1) => {
+    if (!selected) return;
+    const target = index + direction;
+    if (target < 0 || target >= selected.steps.length) return;
+    const steps = [...selected.steps];
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    updateRoutine({ ...selected, steps });
+  };
+
+  const handleNumber = (step: RoutineStep, key: "reps" | "rate", value: number) => {
+    if (Number.isNaN(value) || value <= 0) return;
+    updateStep({ ...step, [key]: value });
+  };
+
+  const handleBpm = (step: RoutineStep, value: string) => {
+    const bpm = Number(value);
+    updateStep({ ...step, bpm: value === "" || Number.isNaN(bpm) ? undefined : bpm });
+  };
+
+  return (
+    <div className="p-4 rounded-xl bg-zinc-800/20 border border-zinc-800 space-y-3">
+        <div className="flex items-center justify-between">
+            <h3 className="text-zinc-500 text-xs font-bold uppercase tracking-wider">Routines</h3>
+            <button
+                onClick={handleNew}
+                disabled={activeRoutineId !== null}
+                className="flex items-center gap-1 px-2 py-1 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-xs text-zinc-300 disabled:opacity-40"
+            >
+                <Plus size={12} />
+                New
+            </button>
+        </div>
+
+        {!selected ? (
+            <p className="text-xs text-zinc-600">Chain loops into a warm-up: each step repeats a range at its own speed.</p>
+        ) : (
+            <>
+                <div className="flex items-center gap-2 text-xs">
+                    {routines.length > 1 ? (
+                        <select
+                            value={selected.id}
+                            disabled={activeRoutineId !== null}
+                            onChange={(e) => setSelectedId(e.target.value)}
+                            className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded px-1 py-1 text-zinc-300 disabled:opacity-50"
+                        >
+                            {routines.map((routine) => (
+                                <option key={routine.id} value={routine.id}>{routine.name}</option>
+                            ))}
+                        </select>
+                    ) : null}
+                    <input
+                        value={selected.name}
+                        disabled={isActive}
+                        onChange={(e) => updateRoutine({ ...selected, name: e.target.value })}
+                        className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded px-1 py-1 text-zinc-300 disabled:opacity-50"
+                        title="Routine name"
+                    />
+                    <button
+                        onClick={isActive ? onStop : () => onStart(selected.id)}
+                        disabled={!isActive && selected.steps.length === 0}
+                        className={clsx(
+                            "flex items-center gap-1 px-2 py-1 rounded-lg font-medium disabled:opacity-40",
+                            isActive ? "bg-red-500/20 text-red-400" : "bg-zinc-800 hover:bg-zinc-700 text-zinc-300"
+                        )}
+                    >
+                        <ListOrdered size={12} />
+                        {isActive ? "Stop" : "Start"}
+                    </button>
+                    <button
+                        onClick={handleDelete}
+                        disabled={isActive}
+                        className="p-1 text-zinc-500 hover:text-red-400 disabled:opacity-40"
+                        title="Delete routine"
+                    >
+                        <Trash2 size={12} />
+                    </button>
+                </div>
+
+                {selected.steps.length > 0 && (
+                    <ol className="space-y-2">
+                        {selected.steps.map((step, index) => (
+                            <li key={step.id} className="space-y-1 px-2 py-1.5 rounded-lg bg-zinc-900/50 text-xs">
+                                <div className="flex items-center gap-2 text-zinc-300">
+                                    <span className="text-zinc-600 font-mono">{index + 1}.</span>
+                                    <input
+                                        value={step.name}
+                                        disabled={isActive}
+                                        onChange={(e) => updateStep({ ...step, name: e.target.value })}
+                                        className="flex-1 min-w-0 bg-transparent outline-none disabled:opacity-70"
+                                    />
+                                    <span className="text-zinc-500 font-mono">{formatTime(step.start)}–{formatTime(step.end)}</span>
+                                    {!isActive && (
+                                        <span className="flex items-center text-zinc-500">
+                                            <button onClick={() => handleMoveStep(index, -1)} className="hover:text-white" title="Move up">
+                                                <ChevronUp size={12} />
+                                            </button>
+                                            <button onClick={() => handleMoveStep(index, 1)} className="hover:text-white" title="Move down">
+                                                <ChevronDown size={12} />
+                                            </button>
+                                            <button
+                                                onClick={() => updateRoutine({ ...selected, steps: selected.steps.filter((s) => s.id !== step.id) })}
+                                                className="hover:text-red-400"
+                                                title="Remove step"
+                                            >
+                                                <Trash2 size={12} />
+                                            </button>
+                                        </span>
+                                    )}
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    <label className="flex items-center gap-1 text-[10px] text-zinc-500 font-mono uppercase">
+                                        ×
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            step={1}
+                                            value={step.reps}
+                                            disabled={isActive}
+                                            onChange={(e) => handleNumber(step, "reps", Math.round(Number(e.target.value)))}
+                                            className="w-full bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-center text-xs text-zinc-300 disabled:opacity-50"
+                                        />
+                                    </label>
+                                    <label className="flex items-center gap-1 text-[10px] text-zinc-500 font-mono uppercase">
+                                        Rate
+                                        <input
+                                            type="number"
+                                            min={0.25}
+                                            max={2}
+                                            step={0.05}
+                                            value={step.rate}
+                                            disabled={isActive}
+                                            onChange={(e) => handleNumber(step, "rate", Number(e.target.value))}
+                                            className="w-full bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-center text-xs text-zinc-300 disabled:opacity-50"
+                                        />
+                                    </label>
+                                    <label className="flex items-center gap-1 text-[10px] text-zinc-500 font-mono uppercase">
+                                        BPM
+                                        <input
+                                            type="number"
+                                            min={30}
+                                            max={300}
+                                            value={step.bpm ?? ""}
+                                            placeholder="—"
+                                            disabled={isActive}
+                                            onChange={(e) => handleBpm(step, e.target.value)}
+                                            className="w-full bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-center text-xs text-zinc-300 disabled:opacity-50"
+                                        />
+                                    </label>
+                                </div>
+                            </li>
+                        ))}
+                    </ol>
+                )}
+
+                {!isActive && (
+                    <button
+                        onClick={handleAddStep}
+                        className="flex items-center gap-1 text-xs text-zinc-500 hover:text-white"
+                    >
+                        <Plus size={12} />
+                        Add current loop ({formatTime(loopStart)}–{formatTime(loopEnd)} at {playbackRate}x)
+                    </button>
+                )}
+            </>
+        )}
+    </div>
+  );
+}
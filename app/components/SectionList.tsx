@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, ChevronUp, ChevronDown, Pencil, Trash2 } from "lucide-react";
+import clsx from "clsx";
+import { LoopSection } from "../lib/sections";
+import { formatTime } from "../lib/time";
+
+interface SectionListProps {
+  sections: LoopSection[];
+  activeSectionId: string | null;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRename: (id: string, name: string) => void;
+  onMove: (id: string, direction: -1 | 1) => void;
+  onDelete: (id: string) => void;
+}
+
+export default function SectionList({
+  sections,
+  activeSectionId,
+  onSelect,
+  onAdd,
+  onRename,
+  onMove,
+  onDelete,
+}: SectionListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const startEditing = (section: LoopSection) => {
+    setEditingId(section.id);
+    setDraftName(section.name);
+  };
+
+  const commitEditing = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="p-4 rounded-xl bg-zinc-800/20 border border-zinc-800">
+        <div className="flex items-center justify-between mb-2">
+            <h3 className="text-zinc-500 text-xs font-bold uppercase tracking-wider">Sections</h3>
+            <button
+                onClick={onAdd}
+                className="flex items-center gap-1 px-2 py-1 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-xs text-zinc-300"
+                title="Save current loop as a section"
+            >
+                <Plus size={12} />
+                Save Loop
+            </button>
+        </div>
+
+        {sections.length === 0 ? (
+            <p className="text-xs text-zinc-600">Set a loop with IN/OUT and save it to come back to it later.</p>
+        ) : (
+            <ul className="space-y-1">
+                {sections.map((section, index) => (
+                    <li
+                        key={section.id}
+                        className={clsx(
+                            "flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm group",
+                            section.id === activeSectionId ? "bg-zinc-800 text-white" : "text-zinc-400 hover:bg-zinc-800/50"
+                        )}
+                    >
+                        <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: section.color }} />
+
+                        {editingId === section.id ? (
+                            <input
+                                autoFocus
+                                value={draftName}
+                                onChange={(e) => setDraftName(e.target.value)}
+                                onBlur={commitEditing}
+                                onKeyDown={(e) => {
+                                    if (e.key === "Enter") commitEditing();
+                                    else if (e.key === "Escape") setEditingId(null);
+                                }}
+                                className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded px-1 text-sm text-white outline-none focus:border-blue-500"
+                            />
+                        ) : (
+                            <button
+                                onClick={() => onSelect(section.id)}
+                                onDoubleClick={() => startEditing(section)}
+                                className="flex-1 min-w-0 text-left truncate"
+                            >
+                                {section.name}
+                            </button>
+                        )}
+
+                        <span className="font-mono text-[10px] text-zinc-500 shrink-0">
+                            {formatTime(section.start)}–{formatTime(section.end)}
+                        </span>
+
+                        <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button
+                                onClick={() => onMove(section.id, -1)}
+                                disabled={index === 0}
+                                className="p-0.5 text-zinc-500 hover:text-white disabled:opacity-30"
+                                title="Move up"
+                            >
+                                <ChevronUp size={14} />
+                            </button>
+                            <button
+                                onClick={() => onMove(section.id, 1)}
+                                disabled={index === sections.length - 1}
+                                className="p-0.5 text-zinc-500 hover:text-white disabled:opacity-30"
+                                title="Move down"
+                            >
+                                <ChevronDown size={14} />
+                            </button>
+                            <button
+                                onClick={() => startEditing(section)}
+                                className="p-0.5 text-zinc-500 hover:text-white"
+                                title="Rename"
+                            >
+                                <Pencil size={12} />
+                            </button>
+                            <button
+                                onClick={() => onDelete(section.id)}
+                                className="p-0.5 text-zinc-500 hover:text-red-400"
+                                title="Delete"
+                            >
+                                <Trash2 size={12} />
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+  );
+}
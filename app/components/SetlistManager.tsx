@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import { ListMusic, Play, Plus, Trash2, ChevronDown, ChevronRight } from "lucide-react";
+import { Setlist, parseSetlistText } from "../lib/setlists";
+import { HistoryEntry, createId } from "../lib/storage";
+import { entryTitle } from "../lib/library";
+
+interface SetlistManagerProps {
+  setlists: Setlist[];
+  onChange: (setlists: Setlist[]) => void;
+  onPlay: (setlist: Setlist, index: number) => void;
+  history: HistoryEntry[]; // For song titles
+}
+
+export default function SetlistManager({ setlists, onChange, onPlay, history }: SetlistManagerProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [text, setText] = useState("");
+  const [invalidLines, setInvalidLines] = useState<string[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const titleFor = (videoId: string, title?: string) => {
+    const entry = history.find((e) => e.id === videoId);
+    return title ?? (entry ? entryTitle(entry) : videoId);
+  };
+
+  const handleCreate = () => {
+    const parsed = parseSetlistText(text);
+    setInvalidLines(parsed.invalidLines);
+    if (parsed.items.length === 0) return;
+
+    const setlist: Setlist = { id: createId(), name: name.trim() || `Setlist ${setlists.length + 1}`, items: parsed.items };
+    onChange([...setlists, setlist]);
+    setExpandedId(setlist.id);
+    setName("");
+    setText("");
+    if (parsed.invalidLines.length === 0) setIsCreating(false);
+  };
+
+  const removeItem = (setlist: Setlist, itemId: string) => {
+    onChange(setlists.map((s) => (s.id === setlist.id ? { ...s, items: s.items.filter((i) => i.id !== itemId) } : s)));
+  };
+
+  return (
+    <div className="p-4 rounded-xl bg-zinc-900/50 border border-zinc-800 text-left space-y-3">
+        <div className="flex items-center justify-between">
+            <h3 className="text-zinc-500 text-xs font-bold uppercase tracking-wider">Setlists</h3>
+            <button
+                onClick={() => { setIsCreating(!isCreating); setInvalidLines([]); }}
+                className="flex items-center gap-1 px-2 py-1 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-xs text-zinc-300"
+            >
+                <Plus size={12} />
+                New
+            </button>
+        </div>
+
+        {isCreating && (
+            <div className="space-y-2">
+                <input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Setlist name"
+                    className="w-full bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-300 outline-none focus:border-blue-500"
+                />
+                <textarea
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    rows={5}
+                    placeholder={"Paste YouTube links, one per line\nOptionally with a title: Song name - https://youtu.be/..."}
+                    className="w-full bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300 font-mono outline-none focus:border-blue-500"
+                />
+                {invalidLines.length > 0 && (
+                    <div className="text-xs text-red-400">
+                        <p>No YouTube link found on {invalidLines.length} line{invalidLines.length === 1 ? "" : "s"}:</p>
+                        <ul className="list-disc list-inside font-mono text-[10px] text-red-400/80 max-h-24 overflow-y-auto">
+                            {invalidLines.slice(0, 20).map((line, i) => (
+                                <li key={i} className="truncate">{line}</li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+                <button
+                    onClick={handleCreate}
+                    disabled={!text.trim()}
+                    className="px-3 py-1 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm text-white disabled:opacity-40"
+                >
+                    Create
+                </button>
+            </div>
+        )}
+
+        {setlists.length === 0 && !isCreating ? (
+            <p className="text-xs text-zinc-600">Queue up a whole rehearsal set and play it through without coming back here.</p>
+        ) : (
+            <ul className="space-y-1">
+                {setlists.map((setlist) => (
+                    <li key={setlist.id} className="text-sm">
+                        <div className="flex items-center gap-2 px-2 py-1.5 rounded-lg text-zinc-300 hover:bg-zinc-800/50">
+                            <button
+                                onClick={() => setExpandedId(expandedId === setlist.id ? null : setlist.id)}
+                                className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                            >
+                                {expandedId === setlist.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                                <ListMusic size={14} className="text-zinc-500 shrink-0" />
+                                <span className="truncate">{setlist.name}</span>
+                                <span className="text-xs text-zinc-600 shrink-0">{setlist.items.length} songs</span>
+                            </button>
+                            <button
+                                onClick={() => onPlay(setlist, 0)}
+                                disabled={setlist.items.length === 0}
+                                className="p-1 text-blue-400 hover:text-blue-300 disabled:opacity-40"
+                                title="Play setlist"
+                            >
+                                <Play size={14} fill="currentColor" />
+                            </button>
+                            <button
+                                onClick={() => onChange(setlists.filter((s) => s.id !== setlist.id))}
+                                className="p-1 text-zinc-500 hover:text-red-400"
+                                title="Delete setlist"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+
+                        {expandedId === setlist.id && (
+                            <ol className="ml-8 mt-1 space-y-0.5 text-xs text-zinc-400">
+                                {setlist.items.map((item, index) => (
+                                    <li key={item.id} className="flex items-center gap-2 group">
+                                        <span className="w-4 text-right text-zinc-600 font-mono">{index + 1}</span>
+                                        <button onClick={() => onPlay(setlist, index)} className="flex-1 min-w-0 truncate text-left hover:text-white">
+                                            {titleFor(item.videoId, item.title)}
+                                        </button>
+                                        <button
+                                            onClick={() => removeItem(setlist, item.id)}
+                                            className="p-0.5 text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                                            title="Remove from setlist"
+                                        >
+                                            <Trash2 size={12} />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { Play, Save, X } from "lucide-react";
+import clsx from "clsx";
+import { Setlist } from "../lib/setlists";
+import { formatTime } from "../lib/time";
+
+interface SetlistQueueProps {
+  setlist: Setlist;
+  currentIndex: number;
+  onSelect: (index: number) => void;
+  onSaveCurrent: () => void; // Store the current loop range and speed on this song
+  onClearCurrent: () => void;
+}
+
+export default function SetlistQueue({ setlist, currentIndex, onSelect, onSaveCurrent, onClearCurrent }: SetlistQueueProps) {
+  const current = setlist.items[currentIndex];
+  const hasSettings = current && (current.start !== undefined || current.end !== undefined || current.rate !== undefined);
+
+  return (
+    <div className="p-4 rounded-xl bg-zinc-800/20 border border-zinc-800">
+        <div className="flex items-center justify-between mb-2">
+            <h3 className="text-zinc-500 text-xs font-bold uppercase tracking-wider truncate">{setlist.name}</h3>
+            <span className="text-[10px] text-zinc-600 font-mono shrink-0">{currentIndex + 1}/{setlist.items.length}</span>
+        </div>
+
+        <ol className="space-y-1">
+            {setlist.items.map((item, index) => (
+                <li key={item.id}>
+                    <button
+                        onClick={() => onSelect(index)}
+                        className={clsx(
+                            "w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-left",
+                            index === currentIndex ? "bg-zinc-800 text-white" : "text-zinc-400 hover:bg-zinc-800/50",
+                            index < currentIndex && "opacity-60"
+                        )}
+                    >
+                        <span className="w-4 text-right text-xs text-zinc-600 font-mono shrink-0">
+                            {index === currentIndex ? <Play size={10} className="inline text-blue-400" fill="currentColor" /> : index + 1}
+                        </span>
+                        <span className="flex-1 min-w-0 truncate">{item.title ?? item.videoId}</span>
+                        {(item.start !== undefined || item.end !== undefined) && (
+                            <span className="text-[10px] text-zinc-500 font-mono shrink-0">
+                                {formatTime(item.start ?? 0)}–{item.end !== undefined ? formatTime(item.end) : "end"}
+                            </span>
+                        )}
+                        {item.rate !== undefined && item.rate !== 1 && (
+                            <span className="text-[10px] text-amber-400/80 font-mono shrink-0">{item.rate}x</span>
+                        )}
+                    </button>
+                </li>
+            ))}
+        </ol>
+
+        <div className="mt-3 flex items-center gap-3 text-xs text-zinc-500">
+            <button onClick={onSaveCurrent} className="flex items-center gap-1 hover:text-white" title="Play this song from the current loop range at the current speed">
+                <Save size={12} />
+                Save range & speed
+            </button>
+            {hasSettings && (
+                <button onClick={onClearCurrent} className="flex items-center gap-1 hover:text-white">
+                    <X size={12} />
+                    Clear
+                </button>
+            )}
+        </div>
+    </div>
+  );
+}
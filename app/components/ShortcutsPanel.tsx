@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import { Settings2, Plus, X } from "lucide-react";
+import clsx from "clsx";
+import {
+  COMMANDS,
+  CommandId,
+  ShortcutSettings,
+  DEFAULT_SHORTCUT_SETTINGS,
+  getCommandLabel,
+  resolveBindings,
+  bindKey,
+  unbindKey,
+  keyFromEvent,
+  formatKey,
+} from "../lib/commands";
+
+interface ShortcutsPanelProps {
+  settings: ShortcutSettings;
+  onChange: (settings: ShortcutSettings) => void;
+}
+
+export default function ShortcutsPanel({ settings, onChange }: ShortcutsPanelProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [capturing, setCapturing] = useState<CommandId | null>(null);
+  const bindings = resolveBindings(settings);
+
+  // Listening on the button itself keeps the key away from the Workspace handler
+  const handleCaptureKey = (e: React.KeyboardEvent, id: CommandId) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.code === "Escape") {
+      setCapturing(null);
+      return;
+    }
+    const key = keyFromEvent(e.nativeEvent);
+    if (!key) return; // Wait for the actual key after a modifier
+    onChange(bindKey(settings, id, key));
+    setCapturing(null);
+  };
+
+  const stepFields: { key: "seekStep" | "largeSeekStep" | "nudgeStep"; label: string; step: number }[] = [
+    { key: "seekStep", label: "Seek", step: 1 },
+    { key: "largeSeekStep", label: "Big Seek", step: 1 },
+    { key: "nudgeStep", label: "Nudge", step: 0.01 },
+  ];
+
+  return (
+    <div className="p-4 rounded-xl bg-zinc-800/20 border border-zinc-800">
+        <div className="flex items-center justify-between mb-2">
+            <h3 className="text-zinc-500 text-xs font-bold uppercase tracking-wider">Shortcuts</h3>
+            <button
+                onClick={() => { setIsEditing(!isEditing); setCapturing(null); }}
+                className={clsx("p-1 rounded", isEditing ? "text-blue-400" : "text-zinc-500 hover:text-white")}
+                title="Edit shortcuts"
+            >
+                <Settings2 size={14} />
+            </button>
+        </div>
+
+        <ul className="text-sm text-zinc-400 space-y-2">
+            {COMMANDS.map((command) => {
+                const keys = bindings[command.id];
+                if (!isEditing && keys.length === 0) return null;
+                return (
+                    <li key={command.id} className="flex justify-between items-center gap-2">
+                        <span>{getCommandLabel(command, settings)}</span>
+                        <span className="flex items-center gap-1 flex-wrap justify-end">
+                            {keys.map((key) => (
+                                <kbd
+                                    key={key}
+                                    onClick={() => isEditing && onChange(unbindKey(settings, command.id, key))}
+                                    className={clsx(
+                                        "bg-zinc-800 px-1 rounded flex items-center gap-0.5",
+                                        isEditing && "cursor-pointer hover:bg-red-900/50"
+                                    )}
+                                    title={isEditing ? "Remove" : undefined}
+                                >
+                                    {formatKey(key)}
+                                    {isEditing && <X size={10} />}
+                                </kbd>
+                            ))}
+                            {isEditing && (
+                                <button
+                                    onClick={() => setCapturing(command.id)}
+                                    onKeyDown={(e) => capturing === command.id && handleCaptureKey(e, command.id)}
+                                    onBlur={() => setCapturing(null)}
+                                    className={clsx(
+                                        "px-1 rounded text-xs",
+                                        capturing === command.id ? "bg-blue-600 text-white" : "bg-zinc-800 text-zinc-500 hover:text-white"
+                                    )}
+                                >
+                                    {capturing === command.id ? "Press a key…" : <Plus size={12} />}
+                                </button>
+                            )}
+                        </span>
+                    </li>
+                );
+            })}
+        </ul>
+
+        {isEditing && (
+            <div className="mt-4 pt-3 border-t border-zinc-800 space-y-3">
+                <div className="grid grid-cols-3 gap-2">
+                    {stepFields.map(({ key, label, step }) => (
+                        <label key={key} className="flex flex-col gap-1 text-[10px] text-zinc-500 font-mono uppercase">
+                            {label} (s)
+                            <input
+                                type="number"
+                                min={step}
+                                step={step}
+                                value={settings[key]}
+                                onChange={(e) => {
+                                    const value = Number(e.target.value);
+                                    if (value > 0) onChange({ ...settings, [key]: value });
+                                }}
+                                className="w-full bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-center text-xs text-zinc-300"
+                            />
+                        </label>
+                    ))}
+                </div>
+                <button
+                    onClick={() => onChange(DEFAULT_SHORTCUT_SETTINGS)}
+                    className="text-xs text-zinc-500 hover:text-white"
+                >
+                    Reset to defaults
+                </button>
+            </div>
+        )}
+    </div>
+  );
+}
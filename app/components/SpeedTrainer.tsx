@@ -0,0 +1,66 @@
+"use client";
+
+import { Gauge } from "lucide-react";
+import clsx from "clsx";
+import { SpeedTrainerSettings } from "../lib/speedTrainer";
+
+interface SpeedTrainerProps {
+  settings: SpeedTrainerSettings;
+  onSettingsChange: (settings: SpeedTrainerSettings) => void;
+  isActive: boolean;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+export default function SpeedTrainer({ settings, onSettingsChange, isActive, onStart, onStop }: SpeedTrainerProps) {
+  const update = (key: keyof SpeedTrainerSettings, value: number) => {
+    if (Number.isNaN(value)) return;
+    onSettingsChange({ ...settings, [key]: value });
+  };
+
+  const fields: { key: keyof SpeedTrainerSettings; label: string; min: number; max: number; step: number }[] = [
+    { key: "startRate", label: "Start", min: 0.25, max: 2, step: 0.05 },
+    { key: "targetRate", label: "Target", min: 0.25, max: 2, step: 0.05 },
+    { key: "step", label: "Step", min: 0.01, max: 0.5, step: 0.01 },
+    { key: "repsPerStep", label: "Reps", min: 1, max: 20, step: 1 },
+  ];
+
+  return (
+    <div className="p-4 rounded-xl bg-zinc-800/20 border border-zinc-800">
+        <div className="flex items-center justify-between mb-3">
+            <h3 className="text-zinc-500 text-xs font-bold uppercase tracking-wider">Speed Trainer</h3>
+            <button
+                onClick={isActive ? onStop : onStart}
+                className={clsx(
+                    "flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium",
+                    isActive ? "bg-red-500/20 text-red-400" : "bg-zinc-800 hover:bg-zinc-700 text-zinc-300"
+                )}
+            >
+                <Gauge size={12} />
+                {isActive ? "Stop" : "Start"}
+            </button>
+        </div>
+
+        <div className="grid grid-cols-4 gap-2">
+            {fields.map(({ key, label, min, max, step }) => (
+                <label key={key} className="flex flex-col gap-1 text-[10px] text-zinc-500 font-mono uppercase">
+                    {label}
+                    <input
+                        type="number"
+                        min={min}
+                        max={max}
+                        step={step}
+                        value={settings[key]}
+                        disabled={isActive}
+                        onChange={(e) => update(key, Number(e.target.value))}
+                        className="w-full bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-center text-xs text-zinc-300 disabled:opacity-50"
+                    />
+                </label>
+            ))}
+        </div>
+        <p className="mt-2 text-[10px] text-zinc-600">
+            Loops the current range, speeding up by {settings.step}x every {settings.repsPerStep} clean reps.
+        </p>
+    </div>
+  );
+}
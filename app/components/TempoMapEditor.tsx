@@ -0,0 +1,169 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { TempoMap, TempoChange, DEFAULT_TEMPO_MAP } from "../lib/tempoMap";
+import { formatTime } from "../lib/time";
+import { PlaybackPosition } from "../lib/practiceSession";
+
+interface TempoMapEditorProps {
+  tempoMap: TempoMap | null;
+  onChange: (map: TempoMap | null) => void;
+  position: PlaybackPosition;
+}
+
+const inputClass = "w-full bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-center text-xs text-zinc-300 font-mono";
+
+// Two decimals is plenty for placing a downbeat by hand
+const roundTime = (time: number) => Math.round(time * 100) / 100;
+
+export default function TempoMapEditor({ tempoMap, onChange, position }: TempoMapEditorProps) {
+  const currentTime = useSyncExternalStore(position.subscribe, position.getTime, position.getTime);
+
+  if (!tempoMap) {
+    return (
+      <div className="p-4 rounded-xl bg-zinc-800/20 border border-zinc-800">
+          <div className="flex items-center justify-between">
+              <h3 className="text-zinc-500 text-xs font-bold uppercase tracking-wider">Tempo Map</h3>
+              <button
+                  onClick={() => onChange({ ...DEFAULT_TEMPO_MAP, downbeat: roundTime(currentTime) })}
+                  className="flex items-center gap-1 px-2 py-1 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-xs text-zinc-300"
+                  title="Create a tempo map with the first downbeat at the playhead"
+              >
+                  <Plus size={12} />
+                  Create
+              </button>
+          </div>
+          <p className="mt-2 text-xs text-zinc-600">Add a tempo map to draw bar lines and snap loops to the beat.</p>
+      </div>
+    );
+  }
+
+  const update = (patch: Partial<TempoMap>) => onChange({ ...tempoMap, ...patch });
+
+  const updateChange = (index: number, patch: Partial<TempoChange>) => {
+    update({ changes: tempoMap.changes.map((c, i) => (i === index ? { ...c, ...patch } : c)) });
+  };
+
+  const addChange = () => {
+    const last = tempoMap.changes[tempoMap.changes.length - 1];
+    update({
+      changes: [
+        ...tempoMap.changes,
+        {
+          time: roundTime(currentTime),
+          bpm: last?.bpm ?? tempoMap.bpm,
+          beatsPerBar: last?.beatsPerBar ?? tempoMap.beatsPerBar,
+        },
+      ].sort((a, b) => a.time - b.time),
+    });
+  };
+
+  return (
+    <div className="p-4 rounded-xl bg-zinc-800/20 border border-zinc-800 space-y-3">
+        <div className="flex items-center justify-between">
+            <h3 className="text-zinc-500 text-xs font-bold uppercase tracking-wider">Tempo Map</h3>
+            <button
+                onClick={() => onChange(null)}
+                className="p-1 text-zinc-500 hover:text-red-400"
+                title="Remove tempo map"
+            >
+                <Trash2 size={12} />
+            </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+            <label className="flex flex-col gap-1 text-[10px] text-zinc-500 font-mono uppercase">
+                <span className="flex justify-between">
+                    Downbeat
+                    <button
+                        onClick={() => update({ downbeat: roundTime(currentTime) })}
+                        className="text-blue-400 hover:text-blue-300 normal-case"
+                        title="Set first downbeat to the playhead"
+                    >
+                        here
+                    </button>
+                </span>
+                <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={tempoMap.downbeat}
+                    onChange={(e) => update({ downbeat: Math.max(0, Number(e.target.value)) })}
+                    className={inputClass}
+                />
+            </label>
+            <label className="flex flex-col gap-1 text-[10px] text-zinc-500 font-mono uppercase">
+                BPM
+                <input
+                    type="number"
+                    min={20}
+                    max={400}
+                    step={0.1}
+                    value={tempoMap.bpm}
+                    onChange={(e) => update({ bpm: Math.max(20, Number(e.target.value)) })}
+                    className={inputClass}
+                />
+            </label>
+            <label className="flex flex-col gap-1 text-[10px] text-zinc-500 font-mono uppercase">
+                Beats/Bar
+                <input
+                    type="number"
+                    min={1}
+                    max={16}
+                    value={tempoMap.beatsPerBar}
+                    onChange={(e) => update({ beatsPerBar: Math.max(1, Math.round(Number(e.target.value))) })}
+                    className={inputClass}
+                />
+            </label>
+        </div>
+
+        {/* Tempo Changes */}
+        {tempoMap.changes.length > 0 && (
+            <ul className="space-y-1">
+                {tempoMap.changes.map((change, index) => (
+                    <li key={index} className="flex items-center gap-2 text-xs">
+                        <span className="w-12 font-mono text-zinc-400">{formatTime(change.time)}</span>
+                        <input
+                            type="number"
+                            min={20}
+                            max={400}
+                            step={0.1}
+                            value={change.bpm}
+                            onChange={(e) => updateChange(index, { bpm: Math.max(20, Number(e.target.value)) })}
+                            className={inputClass}
+                            title="BPM"
+                        />
+                        <input
+                            type="number"
+                            min={1}
+                            max={16}
+                            value={change.beatsPerBar}
+                            onChange={(e) => updateChange(index, { beatsPerBar: Math.max(1, Math.round(Number(e.target.value))) })}
+                            className={inputClass}
+                            title="Beats per bar"
+                        />
+                        <button
+                            onClick={() => update({ changes: tempoMap.changes.filter((_, i) => i !== index) })}
+                            className="p-0.5 text-zinc-500 hover:text-red-400"
+                            title="Remove tempo change"
+                        >
+                            <Trash2 size={12} />
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        )}
+
+        <button
+            onClick={addChange}
+            disabled={currentTime <= tempoMap.downbeat}
+            className="flex items-center gap-1 text-xs text-zinc-400 hover:text-white disabled:opacity-40"
+            title="Change tempo or meter from the playhead onwards"
+        >
+            <Plus size={12} />
+            Tempo change at {formatTime(currentTime)}
+        </button>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, LucideIcon } from "lucide-react";
+import { formatTimecode, parseTimecode } from "../lib/time";
+
+// Fine and coarse nudge, in seconds
+const FINE_NUDGE = 0.01;
+const COARSE_NUDGE = 0.1;
+
+interface TimecodeInputProps {
+  label: string;
+  value: number;
+  onChange: (time: number) => void;
+}
+
+export default function TimecodeInput({ label, value, onChange }: TimecodeInputProps) {
+  // Text being typed; the field shows the real value again once it's committed
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const time = parseTimecode(draft);
+    if (time !== null) onChange(time);
+    setDraft(null);
+  };
+
+  const nudge = (delta: number) => onChange(Math.round((value + delta) * 1000) / 1000);
+
+  const nudgeButton = (delta: number, Icon: LucideIcon) => (
+    <button
+        onClick={() => nudge(delta)}
+        className="p-0.5 rounded text-zinc-500 hover:text-white hover:bg-zinc-700"
+        title={`${delta > 0 ? "+" : "−"}${Math.round(Math.abs(delta) * 1000)}ms`}
+    >
+        <Icon size={12} />
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col gap-1">
+        <label className="text-zinc-500 font-mono">{label}</label>
+        <div className="flex items-center">
+            {nudgeButton(-COARSE_NUDGE, ChevronsLeft)}
+            {nudgeButton(-FINE_NUDGE, ChevronLeft)}
+            <input
+                type="text"
+                inputMode="decimal"
+                value={draft ?? formatTimecode(value)}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={(e) => {
+                    if (e.key === "Enter") commit();
+                    else if (e.key === "Escape") setDraft(null);
+                }}
+                className="w-20 bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-center text-zinc-300 font-mono"
+                title="m:ss.mmm"
+            />
+            {nudgeButton(FINE_NUDGE, ChevronRight)}
+            {nudgeButton(COARSE_NUDGE, ChevronsRight)}
+        </div>
+    </div>
+  );
+}
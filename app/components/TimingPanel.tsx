@@ -0,0 +1,223 @@
+"use client";
+
+import { RefObject, useEffect, useRef, useState } from "react";
+import { Activity, Square } from "lucide-react";
+import clsx from "clsx";
+import { MetronomeHandle } from "./Metronome";
+import {
+  ScheduledClick,
+  TimingHit,
+  TimingSummary,
+  OnsetDetector,
+  matchOnset,
+  summarizeTiming,
+  buildHistogram,
+  HISTOGRAM_BIN,
+  HISTOGRAM_RANGE,
+} from "../lib/timing";
+import { PlaybackPosition } from "../lib/practiceSession";
+import { openMicrophone, closeMicrophone, captureMicrophone, captureLatency } from "../lib/recording";
+
+// Within this many ms counts as on the click
+const ON_TIME = 10;
+// How long scheduled clicks are kept around for hits to match against
+const CLICK_HISTORY = 1;
+
+interface TimingPanelProps {
+  metronomeRef: RefObject<MetronomeHandle | null>;
+  beatsPerBar: number;
+  position: PlaybackPosition;
+  isLooping: boolean;
+}
+
+const toMs = (seconds: number) => Math.round(seconds * 1000);
+const formatDeviation = (seconds: number) => `${seconds > 0 ? "+" : ""}${toMs(seconds)}`;
+
+const deviationColor = (seconds: number) =>
+  Math.abs(toMs(seconds)) <= ON_TIME ? "text-emerald-400" : seconds < 0 ? "text-sky-400" : "text-amber-400";
+
+export default function TimingPanel({ metronomeRef, beatsPerBar, position, isLooping }: TimingPanelProps) {
+  const [isListening, setIsListening] = useState(false);
+  const [error, setError] = useState("");
+  const [summary, setSummary] = useState<TimingSummary | null>(null);
+  // Latest deviation for each beat of the bar
+  const [lastBar, setLastBar] = useState<(number | undefined)[]>([]);
+  const [lastPass, setLastPass] = useState<{ bins: number[]; summary: TimingSummary } | null>(null);
+
+  const stopRef = useRef<(() => void) | null>(null);
+  const clicksRef = useRef<ScheduledClick[]>([]);
+  const matchedRef = useRef(new Set<ScheduledClick>());
+  const sessionRef = useRef<number[]>([]);
+  const passRef = useRef<number[]>([]);
+  // Set when the loop wraps; the pass is wrapped up with the next batch of input
+  const passEndedRef = useRef(false);
+
+  useEffect(() => {
+    if (!isLooping) return;
+    let lastTime = position.getTime();
+    return position.subscribe(() => {
+      const time = position.getTime();
+      if (time < lastTime - 0.5) passEndedRef.current = true;
+      lastTime = time;
+    });
+  }, [position, isLooping]);
+
+  useEffect(() => () => stopRef.current?.(), []);
+
+  const finishPass = () => {
+    const deviations = passRef.current;
+    passRef.current = [];
+    if (deviations.length > 0) setLastPass({ bins: buildHistogram(deviations), summary: summarizeTiming(deviations) });
+  };
+
+  const recordHit = (hit: TimingHit) => {
+    if (matchedRef.current.has(hit.click)) return; // Flams and rattles count once
+    matchedRef.current.add(hit.click);
+    sessionRef.current.push(hit.deviation);
+    passRef.current.push(hit.deviation);
+    setSummary(summarizeTiming(sessionRef.current));
+    if (hit.click.subIndex === 0) {
+      setLastBar((bar) => {
+        const next = [...bar];
+        next[hit.click.beatIndex] = hit.deviation;
+        return next;
+      });
+    }
+  };
+
+  const handleStart = async () => {
+    const metronome = metronomeRef.current;
+    if (!metronome) return;
+    setError("");
+
+    try {
+      const stream = await openMicrophone();
+      const ctx = metronome.getAudioContext();
+      // Hits reach us late by the output and input latency the context reports
+      const latency = captureLatency(ctx, stream);
+      const detector = new OnsetDetector(ctx.sampleRate);
+
+      clicksRef.current = [];
+      matchedRef.current = new Set();
+      sessionRef.current = [];
+      passRef.current = [];
+      passEndedRef.current = false;
+      setSummary(null);
+      setLastBar([]);
+      setLastPass(null);
+
+      const unlisten = metronome.listenToClicks((click) => clicksRef.current.push(click));
+      const stopCapture = await captureMicrophone(ctx, stream, (samples, time) => {
+        if (passEndedRef.current) {
+          passEndedRef.current = false;
+          finishPass();
+        }
+        detector.process(samples, time).forEach((onset) => {
+          const hitTime = onset - latency;
+          clicksRef.current = clicksRef.current.filter((c) => c.time > hitTime - CLICK_HISTORY);
+          const hit = matchOnset(hitTime, clicksRef.current);
+          if (hit) recordHit(hit);
+        });
+      });
+
+      stopRef.current = () => {
+        unlisten();
+        stopCapture();
+        closeMicrophone(stream);
+      };
+      setIsListening(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't start listening");
+    }
+  };
+
+  const handleStop = () => {
+    stopRef.current?.();
+    stopRef.current = null;
+    finishPass();
+    setIsListening(false);
+  };
+
+  const maxBin = lastPass ? Math.max(1, ...lastPass.bins) : 1;
+
+  return (
+    <div className="p-4 rounded-xl bg-zinc-800/20 border border-zinc-800 space-y-3">
+        <div className="flex items-center justify-between">
+            <h3 className="text-zinc-500 text-xs font-bold uppercase tracking-wider">Timing</h3>
+            <button
+                onClick={isListening ? handleStop : handleStart}
+                className={clsx(
+                    "flex items-center gap-1 px-2 py-1 rounded-lg text-xs",
+                    isListening ? "bg-red-600 text-white" : "bg-zinc-800 hover:bg-zinc-700 text-zinc-300"
+                )}
+            >
+                {isListening ? <Square size={12} fill="currentColor" /> : <Activity size={12} />}
+                {isListening ? "Stop" : "Listen"}
+            </button>
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {!summary ? (
+            <p className="text-xs text-zinc-600">
+                {isListening
+                    ? "Start the metronome and play along."
+                    : "Play along with the metronome and see how far ahead or behind each hit lands."}
+            </p>
+        ) : (
+            <>
+                <div className="flex items-end justify-between">
+                    <div>
+                        <span className="text-2xl font-mono font-bold text-white">{summary.score}</span>
+                        <span className="text-xs text-zinc-500"> / 100</span>
+                    </div>
+                    <div className="text-right text-[10px] font-mono text-zinc-500">
+                        <div>
+                            avg <span className={deviationColor(summary.mean)}>{formatDeviation(summary.mean)} ms</span>
+                            {Math.abs(toMs(summary.mean)) > ON_TIME && (summary.mean < 0 ? " rushing" : " dragging")}
+                        </div>
+                        <div>±{toMs(summary.spread)} ms · {summary.count} hits</div>
+                    </div>
+                </div>
+
+                <div className="flex gap-1">
+                    {Array.from({ length: beatsPerBar }, (_, i) => lastBar[i]).map((deviation, i) => (
+                        <div key={i} className="flex-1 flex flex-col items-center py-1 rounded bg-zinc-900 text-[10px] font-mono">
+                            <span className="text-zinc-600">{i + 1}</span>
+                            <span className={deviation === undefined ? "text-zinc-700" : deviationColor(deviation)}>
+                                {deviation === undefined ? "–" : formatDeviation(deviation)}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            </>
+        )}
+
+        {lastPass && (
+            <div>
+                <div className="flex items-end gap-px h-12">
+                    {lastPass.bins.map((count, i) => {
+                        const center = -HISTOGRAM_RANGE + (i + 0.5) * HISTOGRAM_BIN;
+                        return (
+                            <div
+                                key={i}
+                                className={clsx(
+                                    "flex-1 rounded-t-sm",
+                                    Math.abs(center) * 1000 <= ON_TIME ? "bg-emerald-500/70" : center < 0 ? "bg-sky-500/60" : "bg-amber-500/60"
+                                )}
+                                style={{ height: `${(count / maxBin) * 100}%` }}
+                                title={`${toMs(center - HISTOGRAM_BIN / 2)} to ${toMs(center + HISTOGRAM_BIN / 2)} ms: ${count}`}
+                            />
+                        );
+                    })}
+                </div>
+                <div className="flex justify-between text-[10px] font-mono text-zinc-600 mt-1">
+                    <span>early {toMs(HISTOGRAM_RANGE)}</span>
+                    <span>last pass: {lastPass.summary.score}</span>
+                    <span>late {toMs(HISTOGRAM_RANGE)}</span>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import clsx from "clsx";
+import {
+  TrainingSettings,
+  TrainingMode,
+  GapClickSettings,
+  TempoRampSettings,
+  TRAINING_MODES,
+} from "../lib/trainingModes";
+
+interface TrainingModePanelProps {
+  settings: TrainingSettings;
+  onChange: (settings: TrainingSettings) => void;
+  bpm: number;
+  // The ramp sets its own tempo, so it can't run while the click follows the video
+  canRamp: boolean;
+}
+
+const inputClass = "w-12 bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-center text-zinc-300 font-mono";
+
+const clampInt = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value)));
+
+export default function TrainingModePanel({ settings, onChange, bpm, canRamp }: TrainingModePanelProps) {
+  const { gap, ramp } = settings;
+
+  const setMode = (mode: TrainingMode) => {
+    // A ramp starts from wherever the tempo is now unless one was already set up
+    if (mode === "ramp" && settings.mode !== "ramp") {
+      onChange({ ...settings, mode, ramp: { ...ramp, from: bpm, to: Math.min(300, bpm + 20) } });
+      return;
+    }
+    onChange({ ...settings, mode });
+  };
+
+  const updateGap = (changes: Partial<GapClickSettings>) => onChange({ ...settings, gap: { ...gap, ...changes } });
+  const updateRamp = (changes: Partial<TempoRampSettings>) => onChange({ ...settings, ramp: { ...ramp, ...changes } });
+
+  return (
+    <div className="w-full space-y-2 text-xs">
+        <div className="flex flex-wrap gap-1 justify-center">
+            {TRAINING_MODES.map((option) => (
+                <button
+                    key={option.id}
+                    onClick={() => setMode(option.id)}
+                    className={clsx(
+                        "px-2 py-1 rounded-md text-[10px] font-bold transition-colors",
+                        settings.mode === option.id ? "bg-blue-600/20 text-blue-400" : "bg-zinc-800 text-zinc-500 hover:text-white"
+                    )}
+                >
+                    {option.label}
+                </button>
+            ))}
+        </div>
+
+        {settings.mode === "gap" && (
+            <div className="space-y-2 text-zinc-500">
+                <div className="flex items-center justify-center gap-2">
+                    Play
+                    <input
+                        type="number"
+                        min={1}
+                        max={32}
+                        value={gap.playBars}
+                        onChange={(e) => updateGap({ playBars: clampInt(Number(e.target.value), 1, 32) })}
+                        className={inputClass}
+                    />
+                    {gap.random ? "bars, then" : "mute"}
+                    {!gap.random && (
+                        <input
+                            type="number"
+                            min={1}
+                            max={32}
+                            value={gap.muteBars}
+                            onChange={(e) => updateGap({ muteBars: clampInt(Number(e.target.value), 1, 32) })}
+                            className={inputClass}
+                        />
+                    )}
+                    {gap.random ? "random" : "bars"}
+                </div>
+                <div className="flex items-center justify-center gap-2">
+                    <label className="flex items-center gap-1 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={gap.random}
+                            onChange={(e) => updateGap({ random: e.target.checked })}
+                            className="accent-blue-500"
+                        />
+                        Random muting
+                    </label>
+                    {gap.random && (
+                        <>
+                            <input
+                                type="number"
+                                min={5}
+                                max={95}
+                                step={5}
+                                value={Math.round(gap.chance * 100)}
+                                onChange={(e) => updateGap({ chance: clampInt(Number(e.target.value), 5, 95) / 100 })}
+                                className={inputClass}
+                                title="Chance of each bar being muted"
+                            />
+                            % of bars
+                        </>
+                    )}
+                </div>
+            </div>
+        )}
+
+        {settings.mode === "ramp" && (
+            canRamp ? (
+                <div className="flex flex-wrap items-center justify-center gap-2 text-zinc-500">
+                    <input
+                        type="number"
+                        min={30}
+                        max={300}
+                        value={ramp.from}
+                        onChange={(e) => updateRamp({ from: clampInt(Number(e.target.value), 30, 300) })}
+                        className={inputClass}
+                    />
+                    to
+                    <input
+                        type="number"
+                        min={30}
+                        max={300}
+                        value={ramp.to}
+                        onChange={(e) => updateRamp({ to: clampInt(Number(e.target.value), 30, 300) })}
+                        className={inputClass}
+                    />
+                    BPM over
+                    <input
+                        type="number"
+                        min={1}
+                        max={999}
+                        value={ramp.length}
+                        onChange={(e) => updateRamp({ length: clampInt(Number(e.target.value), 1, 999) })}
+                        className={inputClass}
+                    />
+                    <select
+                        value={ramp.unit}
+                        onChange={(e) => updateRamp({ unit: e.target.value as TempoRampSettings["unit"] })}
+                        className="bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-zinc-300"
+                    >
+                        <option value="bars">bars</option>
+                        <option value="minutes">minutes</option>
+                    </select>
+                </div>
+            ) : (
+                <p className="text-center text-zinc-600">Unlock from the video to use a tempo ramp.</p>
+            )
+        )}
+    </div>
+  );
+}
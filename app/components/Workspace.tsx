@@ -1,125 +1,396 @@
 "use client";
 
-import { useState, useRef, useEffect, useCallback } from "react";
-import YouTubePlayer, { YouTubePlayerRef } from "./YouTubePlayer";
+import { useState, useRef, useEffect, useCallback, useMemo, useSyncExternalStore } from "react";
+import YouTubePlayer from "./YouTubePlayer";
+import MediaFilePlayer from "./MediaFilePlayer";
 import ControlPanel from "./ControlPanel";
-import Metronome from "./Metronome";
-import { ArrowLeft } from "lucide-react";
+import Metronome, { MetronomeHandle } from "./Metronome";
+import SectionList from "./SectionList";
+import SpeedTrainer from "./SpeedTrainer";
+import TempoMapEditor from "./TempoMapEditor";
+import ShortcutsPanel from "./ShortcutsPanel";
+import MidiPanel from "./MidiPanel";
+import CountInPanel from "./CountInPanel";
+import RoutinePanel from "./RoutinePanel";
+import SetlistQueue from "./SetlistQueue";
+import NotesPanel from "./NotesPanel";
+import RecorderPanel from "./RecorderPanel";
+import TimingPanel from "./TimingPanel";
+import { ArrowLeft, SkipBack, SkipForward, WifiOff } from "lucide-react";
+import { LoopSection, loadSections, saveSections, nextSectionColor } from "../lib/sections";
+import { PracticeNote, loadNotes, saveNotes, noteAt } from "../lib/notes";
+import { createId, addToHistory } from "../lib/storage";
+import { addPracticeTime } from "../lib/library";
+import { PlayerHandle, PlayerReadyInfo, PlayerSource, getSourceId } from "../lib/player";
+import { PracticeSession } from "../lib/practiceSession";
+import { SessionState, SessionOptions } from "../lib/sessionUrl";
+import { Setlist, SetlistItem, saveSetlist } from "../lib/setlists";
+import { TempoMap, SnapMode, loadTempoMap, saveTempoMap, snapTime, tempoAt } from "../lib/tempoMap";
+import { CountInSettings, DEFAULT_COUNT_IN } from "../lib/countIn";
+import { beatTempo } from "../lib/subdivisions";
+import { Routine, loadRoutines, saveRoutines } from "../lib/routines";
+import {
+  ShortcutSettings,
+  loadShortcutSettings,
+  saveShortcutSettings,
+  resolveBindings,
+  keyFromEvent,
+  findCommand,
+} from "../lib/commands";
+import { MidiBinding, loadMidiBindings, saveMidiBindings } from "../lib/midi";
+import { subscribeOnline, isOnline } from "../lib/offline";
+
+// How often practice time is written to the library while playing (ms)
+const PRACTICE_SAVE_INTERVAL = 30000;
+// How long a YouTube video gets to load before it's treated as unreachable (ms)
+const PLAYER_LOAD_TIMEOUT = 15000;
 
 interface WorkspaceProps {
-  videoId: string;
+  source: PlayerSource;
+  initialSession?: SessionOptions;
+  onSessionChange?: (state: SessionState) => void;
   onBack: () => void;
+  // Set when playing through a setlist
+  setlist?: Setlist;
+  setlistIndex?: number;
+  onSetlistSelect?: (index: number) => void;
 }
 
-export default function Workspace({ videoId, onBack }: WorkspaceProps) {
-  const playerRef = useRef<YouTubePlayerRef>(null);
+export default function Workspace({
+  source,
+  initialSession,
+  onSessionChange,
+  onBack,
+  setlist: initialSetlist,
+  setlistIndex = 0,
+  onSetlistSelect,
+}: WorkspaceProps) {
+  const playerRef = useRef<PlayerHandle>(null);
+  const metronomeRef = useRef<MetronomeHandle>(null);
+  const videoId = getSourceId(source);
 
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [playbackRate, setPlaybackRate] = useState(1);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(0);
+  // Saved Sections
+  const [sections, setSections] = useState<LoopSection[]>(() => loadSections(videoId));
 
-  // Looping State
-  const [isLooping, setIsLooping] = useState(false);
-  const [loopStart, setLoopStart] = useState(0);
-  const [loopEnd, setLoopEnd] = useState(10); // Default 10s loop
+  // Practice Session
+  // Playback, looping, speed, the trainer and routines all live in the session engine.
+  // A shared link wins for the loop, then the first saved section, otherwise a default 10s loop.
+  const [session] = useState(() => {
+    const loopStart = initialSession?.loopStart ?? sections[0]?.start ?? 0;
+    return new PracticeSession({
+      player: playerRef,
+      metronome: metronomeRef,
+      initialState: {
+        playbackRate: initialSession?.playbackRate ?? 1,
+        isLooping: initialSession?.isLooping ?? false,
+        loopStart,
+        loopEnd: initialSession?.loopEnd ?? sections[0]?.end ?? Math.max(10, loopStart + 10),
+        bpm: initialSession?.bpm ?? 120,
+      },
+    });
+  });
+  const {
+    isPlaying,
+    isCountingIn,
+    duration,
+    playbackRate,
+    isLooping,
+    loopStart,
+    loopEnd,
+    bpm,
+    trainerSettings,
+    trainer,
+    routineRun,
+  } = useSyncExternalStore(session.subscribe, session.getState, session.getState);
 
-  const handleReady = (event: any) => {
-    setDuration(event.target.getDuration());
-    setIsPlaying(true); // Auto-play
+  // Read once: the Workspace writes the session back to the URL on mount, without `t`
+  const [linkStartTime] = useState(initialSession?.startTime);
+  const [linkIsLooping] = useState(initialSession?.isLooping === true);
 
-    // Save to History
-    try {
-        const videoData = event.target.getVideoData();
-        if (videoData && videoData.title) {
-            const historyItem = {
-                id: videoId,
-                title: videoData.title,
-                timestamp: Date.now()
-            };
-
-            const stored = localStorage.getItem("drum_history");
-            let history = stored ? JSON.parse(stored) : [];
-            
-            // Remove existing entry for this ID to move it to top
-            history = history.filter((h: any) => h.id !== videoId);
-            
-            // Add to top
-            history.unshift(historyItem);
-            
-            // Limit to 20
-            if (history.length > 20) history = history.slice(0, 20);
-            
-            localStorage.setItem("drum_history", JSON.stringify(history));
-        }
-    } catch (e) {
-        console.error("Failed to save history", e);
+  // The metronome owns its tempo; the session tracks it for the link and count-ins
+  const handleBpmChange = useCallback((next: number) => session.setBpm(next), [session]);
+
+  useEffect(() => {
+    onSessionChange?.({ loopStart, loopEnd, isLooping, playbackRate, bpm });
+  }, [loopStart, loopEnd, isLooping, playbackRate, bpm, onSessionChange]);
+
+  // A section is "active" while the loop range matches it exactly
+  const activeSection = sections.find((s) => s.start === loopStart && s.end === loopEnd) ?? null;
+
+  // Practice Notes
+  const [notes, setNotes] = useState<PracticeNote[]>(() => loadNotes(videoId));
+  // Only re-renders when the note under the playhead changes, not on every progress report
+  const getActiveNote = () => noteAt(notes, session.position.getTime());
+  const activeNote = useSyncExternalStore(session.position.subscribe, getActiveNote, getActiveNote);
+
+  // Tempo Map
+  const [tempoMap, setTempoMap] = useState<TempoMap | null>(() => loadTempoMap(videoId));
+  const [snapMode, setSnapMode] = useState<SnapMode>("beat");
+
+  // Count-In
+  const [countInSettings, setCountInSettings] = useState<CountInSettings>(DEFAULT_COUNT_IN);
+  const [metronomeBeatsPerBar, setMetronomeBeatsPerBar] = useState(4);
+  const [metronomeBeatUnit, setMetronomeBeatUnit] = useState(4);
+  const handleTimeSignatureChange = useCallback((beatsPerBar: number, beatUnit: number) => {
+    setMetronomeBeatsPerBar(beatsPerBar);
+    setMetronomeBeatUnit(beatUnit);
+  }, []);
+  // The section's own tempo if the video has a tempo map, otherwise the metronome's
+  const getCountInTempo = (start: number, metronomeBpm: number) =>
+    tempoMap ? tempoAt(tempoMap, start) : { bpm: beatTempo(metronomeBpm, metronomeBeatUnit), beatsPerBar: metronomeBeatsPerBar };
+  const countInTempo = getCountInTempo(loopStart, bpm);
+
+  // Practice Routines
+  const [routines, setRoutines] = useState<Routine[]>(() => loadRoutines(videoId));
+  const activeRoutine = routineRun?.routine ?? null;
+
+  // Setlist
+  const [setlist, setSetlist] = useState<Setlist | null>(initialSetlist ?? null);
+  const setlistItem = setlist?.items[setlistIndex] ?? null;
+  // Session events are subscribed to once, so they reach the latest handleSongEnd through a ref
+  const songEndRef = useRef<() => void>(() => {});
+
+  useEffect(() => session.on((event) => {
+    if (event.type === "songEnd") songEndRef.current();
+  }), [session]);
+
+  const updateSetlistItem = (item: SetlistItem) => {
+    if (!setlist) return;
+    const next = { ...setlist, items: setlist.items.map((i) => (i.id === item.id ? item : i)) };
+    setSetlist(next);
+    saveSetlist(next);
+  };
+
+  const handleReady = ({ duration, title }: PlayerReadyInfo) => {
+    session.handleReady(duration);
+
+    // Timestamped links and setlist songs start part way in; a shared loop opens on its first bar
+    const startTime = setlistItem?.start ?? linkStartTime ?? (linkIsLooping ? session.getState().loopStart : undefined);
+    if (startTime !== undefined) session.seek(startTime);
+    // Name untitled setlist songs the first time they're played
+    if (setlist && setlistItem && !setlistItem.title && title) {
+      updateSetlistItem({ ...setlistItem, title });
     }
+
+    // Local files can't be reopened from Landing, so only YouTube videos go in the history
+    if (source.type !== "youtube") return;
+
+    // Save to History
+    if (title) addToHistory({ id: videoId, title, timestamp: Date.now() });
   };
 
-  const handleStateChange = (event: any) => {
-    // 1 = Playing, 2 = Paused
-    setIsPlaying(event.data === 1);
+  // Offline: the metronome and everything saved locally still work, but the
+  // YouTube iframe needs a connection. A video that never gets a duration didn't load.
+  const online = useSyncExternalStore(subscribeOnline, isOnline, () => true);
+  const [loadTimedOut, setLoadTimedOut] = useState(false);
+  const isLoadingVideo = source.type === "youtube" && duration === 0;
+
+  useEffect(() => {
+    if (!isLoadingVideo) return;
+    const timeout = setTimeout(() => setLoadTimedOut(true), PLAYER_LOAD_TIMEOUT);
+    return () => clearTimeout(timeout);
+  }, [isLoadingVideo]);
+
+  const cantLoadVideo = isLoadingVideo && (!online || loadTimedOut);
+
+  // Practice time for the library, saved as it goes so a closed tab doesn't lose it
+  useEffect(() => {
+    if (!isPlaying || source.type !== "youtube") return;
+    let last = Date.now();
+    const flush = () => {
+      const now = Date.now();
+      addPracticeTime(videoId, (now - last) / 1000);
+      last = now;
+    };
+    const interval = setInterval(flush, PRACTICE_SAVE_INTERVAL);
+    return () => {
+      clearInterval(interval);
+      flush();
+    };
+  }, [isPlaying, source.type, videoId]);
+
+  // Loop wraps are timed on the session's interpolated clock, checked every frame while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    let rafId: number;
+    const frame = () => {
+      session.tick();
+      rafId = requestAnimationFrame(frame);
+    };
+    rafId = requestAnimationFrame(frame);
+    return () => cancelAnimationFrame(rafId);
+  }, [isPlaying, session]);
+
+  // Stable handlers, so the memoized ControlPanel only re-renders when its data changes
+  const controls = useMemo(() => ({
+    playPause: () => session.togglePlayPause(),
+    seek: (time: number) => session.seek(time),
+    setLoopStart: (time: number) => session.setLoopStart(time),
+    setLoopEnd: (time: number) => session.setLoopEnd(time),
+    toggleLoop: () => session.toggleLoop(),
+    setPlaybackRate: (rate: number) => session.setPlaybackRate(rate),
+    missTrainerRep: () => session.missTrainerRep(),
+    stopRoutine: () => session.stopRoutine(),
+  }), [session]);
+
+  // --- Sections ---
+
+  const updateSections = (next: LoopSection[]) => {
+    setSections(next);
+    saveSections(videoId, next);
   };
 
-  const handleProgress = useCallback((time: number) => {
-    setCurrentTime(time);
+  const handleAddSection = () => {
+    updateSections([
+      ...sections,
+      {
+        id: createId(),
+        name: `Section ${sections.length + 1}`,
+        start: loopStart,
+        end: loopEnd,
+        color: nextSectionColor(sections),
+      },
+    ]);
+  };
 
-    // Looping Logic
-    if (isLooping && time >= loopEnd) {
-      playerRef.current?.seekTo(loopStart);
-    }
-  }, [isLooping, loopEnd, loopStart]);
+  const handleSelectSection = useCallback((id: string) => {
+    const section = sections.find((s) => s.id === id);
+    if (section) session.selectLoop(section.start, section.end);
+  }, [sections, session]);
 
-  const togglePlayPause = () => {
-    if (isPlaying) {
-      playerRef.current?.internalPlayer?.pauseVideo();
-    } else {
-      playerRef.current?.internalPlayer?.playVideo();
-    }
+  const handleRenameSection = (id: string, name: string) => {
+    updateSections(sections.map((s) => (s.id === id ? { ...s, name } : s)));
+  };
+
+  const handleMoveSection = (id: string, direction: -1 | 1) => {
+    const index = sections.findIndex((s) => s.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= sections.length) return;
+    const next = [...sections];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateSections(next);
+  };
+
+  const handleDeleteSection = (id: string) => {
+    updateSections(sections.filter((s) => s.id !== id));
+  };
+
+  // --- Notes ---
+
+  const handleNotesChange = (next: PracticeNote[]) => {
+    setNotes(next);
+    saveNotes(videoId, next);
   };
 
-  const handleSeek = (time: number) => {
-    playerRef.current?.seekTo(time);
-    setCurrentTime(time);
+  const handleSelectNote = useCallback((note: PracticeNote) => session.seek(note.time), [session]);
+
+  const handleTempoMapChange = (map: TempoMap | null) => {
+    setTempoMap(map);
+    saveTempoMap(videoId, map);
+  };
+
+  // --- Setlist ---
+
+  const hasNextSong = setlist !== null && setlistIndex < setlist.items.length - 1;
+
+  const handleSongEnd = () => {
+    if (hasNextSong) onSetlistSelect?.(setlistIndex + 1);
+    else if (setlist) session.pause(); // End of the set
   };
 
-  // Keyboard Shortcuts
+  useEffect(() => {
+    songEndRef.current = handleSongEnd;
+  });
+
+  const handleSaveSetlistItem = () => {
+    if (!setlistItem) return;
+    updateSetlistItem({ ...setlistItem, start: loopStart, end: loopEnd, rate: playbackRate });
+  };
+
+  const handleClearSetlistItem = () => {
+    if (!setlistItem) return;
+    const { id, videoId, title } = setlistItem;
+    updateSetlistItem({ id, videoId, ...(title ? { title } : {}) });
+  };
+
+  // --- Routines ---
+
+  const handleRoutinesChange = (next: Routine[]) => {
+    setRoutines(next);
+    saveRoutines(videoId, next);
+    session.updateRoutines(next);
+  };
+
+  const handleStartRoutine = (id: string) => {
+    const routine = routines.find((r) => r.id === id);
+    if (routine) session.startRoutine(routine);
+  };
+
+  // --- Keyboard Shortcuts ---
+
+  const [shortcutSettings, setShortcutSettings] = useState<ShortcutSettings>(loadShortcutSettings);
+
+  const handleShortcutSettingsChange = (settings: ShortcutSettings) => {
+    setShortcutSettings(settings);
+    saveShortcutSettings(settings);
+  };
+
+  // Hand the engine the latest settings after every render
+  useEffect(() => {
+    session.configure({
+      shortcuts: shortcutSettings,
+      countIn: countInSettings,
+      countInTempo: getCountInTempo,
+      snap: (time) => (tempoMap ? snapTime(tempoMap, time, snapMode) : time),
+      songEnd: setlistItem?.end,
+    });
+  });
+
+  // MIDI triggers run the same commands as the keyboard
+  const [midiBindings, setMidiBindings] = useState<MidiBinding[]>(loadMidiBindings);
+
+  const handleMidiBindingsChange = (bindings: MidiBinding[]) => {
+    setMidiBindings(bindings);
+    saveMidiBindings(bindings);
+  };
+
+  const keyBindings = useMemo(() => resolveBindings(shortcutSettings), [shortcutSettings]);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-        // Ignore if typing in an input
-        if ((e.target as HTMLElement).tagName === 'INPUT') return;
-
-        if (e.code === 'Space') {
-            e.preventDefault();
-            togglePlayPause();
-        } else if (e.code === 'ArrowLeft') {
-            handleSeek(currentTime - 5);
-        } else if (e.code === 'ArrowRight') {
-            handleSeek(currentTime + 5);
-        } else if (e.code === 'KeyR') {
-            // Restart loop
-            if (isLooping) handleSeek(loopStart);
-            else handleSeek(0);
-        }
+        // Ignore if typing in a form field
+        const tagName = (e.target as HTMLElement).tagName;
+        if (tagName === 'INPUT' || tagName === 'SELECT' || tagName === 'TEXTAREA') return;
+
+        const key = keyFromEvent(e);
+        const command = key && findCommand(keyBindings, key);
+        if (!command) return;
+
+        e.preventDefault();
+        session.runCommand(command);
     };
-    
-    // We bind to window listener but must be careful with dependencies
-    // To avoid stale closures we can use refs or dependency array
-    // Here we need current 'isPlaying' etc. so simpler to just let it update
-    // But adding/removing listener on every render is expensive? 
-    // Actually React handles this fine usually, or use a ref for 'currentTime'.
-    // For simplicity V1, simplistic binding:
+
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isPlaying, currentTime, isLooping, loopStart]); 
-
+  }, [keyBindings, session]);
 
   const [videoVolume, setVideoVolume] = useState(100);
 
+  // Turned down by the recorder's video/take balance while a take plays
+  const [videoGain, setVideoGain] = useState(1);
+
   useEffect(() => {
-    playerRef.current?.setVolume(videoVolume);
-  }, [videoVolume]);
+    playerRef.current?.setVolume(videoVolume * videoGain);
+  }, [videoVolume, videoGain]);
+
+  // --- Recorder ---
+
+  const handlePlaySection = (start: number, end: number, rate: number) => {
+    session.setLoop(start, end);
+    if (rate !== playbackRate) session.setPlaybackRate(rate);
+    session.seek(start);
+    session.play();
+  };
 
   return (
     <div className="flex flex-col h-screen bg-black">
@@ -132,57 +403,228 @@ export default function Workspace({ videoId, onBack }: WorkspaceProps) {
           <ArrowLeft size={18} />
           <span>Change Video</span>
         </button>
+
+        {!online && (
+          <div className="ml-4 flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-400 text-xs font-bold">
+            <WifiOff size={12} />
+            Offline
+          </div>
+        )}
+
+        {setlist && (
+          <div className="ml-auto flex items-center gap-3 text-sm text-zinc-400 min-w-0">
+            <button
+              onClick={() => onSetlistSelect?.(setlistIndex - 1)}
+              disabled={setlistIndex === 0}
+              className="p-1 hover:text-white disabled:opacity-30"
+              title="Previous song"
+            >
+              <SkipBack size={18} />
+            </button>
+            <span className="truncate">
+              <span className="text-zinc-500">{setlist.name} · {setlistIndex + 1}/{setlist.items.length}</span>
+              {setlistItem?.title && <span className="text-white"> · {setlistItem.title}</span>}
+            </span>
+            <button
+              onClick={() => onSetlistSelect?.(setlistIndex + 1)}
+              disabled={!hasNextSong}
+              className="p-1 hover:text-white disabled:opacity-30"
+              title="Next song"
+            >
+              <SkipForward size={18} />
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="flex-1 flex flex-col md:flex-row overflow-hidden relative">
         {/* Main Stage: Video */}
         <div className="flex-1 bg-black relative flex items-center justify-center p-4 pb-32 md:pb-36">
-           <div className="w-full max-w-5xl aspect-video shadow-2xl rounded-xl overflow-hidden bg-zinc-950 border border-zinc-900">
-               <YouTubePlayer
-                    ref={playerRef}
-                    videoId={videoId}
-                    playbackRate={playbackRate}
-                    onReady={handleReady}
-                    onStateChange={handleStateChange}
-                    onProgress={handleProgress}
-               />
+           <div className="w-full max-w-5xl aspect-video shadow-2xl rounded-xl overflow-hidden bg-zinc-950 border border-zinc-900 relative">
+               {isCountingIn && (
+                   <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 px-4 py-2 rounded-full bg-blue-600/90 text-white text-sm font-bold tracking-wider animate-pulse pointer-events-none">
+                       COUNT-IN
+                   </div>
+               )}
+               {cantLoadVideo && (
+                   <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-3 p-6 text-center bg-zinc-950">
+                       <WifiOff size={32} className="text-zinc-600" />
+                       <div className="text-white font-bold">{online ? "The video isn't loading" : "You're offline"}</div>
+                       <p className="max-w-sm text-sm text-zinc-500">
+                           YouTube needs a connection. The metronome, notes and everything in the sidebar still work.
+                       </p>
+                       <button
+                           onClick={() => window.location.reload()}
+                           disabled={!online}
+                           className="px-4 py-2 rounded-lg bg-zinc-800 text-sm text-zinc-300 hover:text-white hover:bg-zinc-700 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                       >
+                           Try again
+                       </button>
+                   </div>
+               )}
+               {source.type === "youtube" ? (
+                   <YouTubePlayer
+                        ref={playerRef}
+                        videoId={source.videoId}
+                        playbackRate={playbackRate}
+                        onReady={handleReady}
+                        onPlayingChange={session.handlePlayingChange}
+                        onProgress={session.handleProgress}
+                        onEnded={session.handleEnded}
+                   />
+               ) : (
+                   <MediaFilePlayer
+                        ref={playerRef}
+                        file={source.file}
+                        playbackRate={playbackRate}
+                        onReady={handleReady}
+                        onPlayingChange={session.handlePlayingChange}
+                        onProgress={session.handleProgress}
+                        onEnded={session.handleEnded}
+                   />
+               )}
            </div>
         </div>
 
         {/* Sidebar: Tools (Metronome, etc) */}
         <div className="w-full md:w-80 bg-zinc-900 border-l border-zinc-800 p-4 flex flex-col gap-6 z-10 overflow-y-auto pb-32">
             <h2 className="text-lg font-bold text-white">Tools</h2>
-            <Metronome />
+            {setlist && (
+                <SetlistQueue
+                    setlist={setlist}
+                    currentIndex={setlistIndex}
+                    onSelect={(index) => onSetlistSelect?.(index)}
+                    onSaveCurrent={handleSaveSetlistItem}
+                    onClearCurrent={handleClearSetlistItem}
+                />
+            )}
+            <Metronome
+                ref={metronomeRef}
+                initialBpm={bpm}
+                onBpmChange={handleBpmChange}
+                onTimeSignatureChange={handleTimeSignatureChange}
+                videoPosition={session.position}
+                videoIsPlaying={isPlaying}
+                videoRate={playbackRate}
+            />
+
+            <TimingPanel
+                metronomeRef={metronomeRef}
+                beatsPerBar={metronomeBeatsPerBar}
+                position={session.position}
+                isLooping={isLooping}
+            />
+
+            <SectionList
+                sections={sections}
+                activeSectionId={activeSection?.id ?? null}
+                onSelect={handleSelectSection}
+                onAdd={handleAddSection}
+                onRename={handleRenameSection}
+                onMove={handleMoveSection}
+                onDelete={handleDeleteSection}
+            />
+
+            <NotesPanel
+                notes={notes}
+                onChange={handleNotesChange}
+                onSelect={handleSelectNote}
+                activeNoteId={activeNote?.id ?? null}
+                position={session.position}
+                loopStart={loopStart}
+                loopEnd={loopEnd}
+                isLooping={isLooping}
+            />
+
+            <RecorderPanel
+                videoId={videoId}
+                metronomeRef={metronomeRef}
+                loopStart={loopStart}
+                loopEnd={loopEnd}
+                playbackRate={playbackRate}
+                position={session.position}
+                isPlaying={isPlaying}
+                onPlaySection={handlePlaySection}
+                onStopSection={() => session.pause()}
+                onVideoGainChange={setVideoGain}
+            />
+
+            <TempoMapEditor
+                tempoMap={tempoMap}
+                onChange={handleTempoMapChange}
+                position={session.position}
+            />
+
+            <CountInPanel
+                settings={countInSettings}
+                onChange={setCountInSettings}
+                bpm={countInTempo.bpm * playbackRate}
+                beatsPerBar={countInTempo.beatsPerBar}
+            />
+
+            <RoutinePanel
+                routines={routines}
+                onChange={handleRoutinesChange}
+                activeRoutineId={activeRoutine?.id ?? null}
+                onStart={handleStartRoutine}
+                onStop={() => session.stopRoutine()}
+                loopStart={loopStart}
+                loopEnd={loopEnd}
+                playbackRate={playbackRate}
+                loopName={activeSection?.name}
+            />
+
+            <SpeedTrainer
+                settings={trainerSettings}
+                onSettingsChange={(settings) => session.setTrainerSettings(settings)}
+                isActive={trainer !== null}
+                onStart={() => session.startTrainer()}
+                onStop={() => session.stopTrainer()}
+            />
             
-            <div className="p-4 rounded-xl bg-zinc-800/20 border border-zinc-800">
-                <h3 className="text-zinc-500 text-xs font-bold uppercase tracking-wider mb-2">Shortcuts</h3>
-                <ul className="text-sm text-zinc-400 space-y-2">
-                    <li className="flex justify-between"><span>Play / Pause</span> <kbd className="bg-zinc-800 px-1 rounded">Space</kbd></li>
-                    <li className="flex justify-between"><span>Rewind 5s</span> <kbd className="bg-zinc-800 px-1 rounded">←</kbd></li>
-                    <li className="flex justify-between"><span>Forward 5s</span> <kbd className="bg-zinc-800 px-1 rounded">→</kbd></li>
-                    <li className="flex justify-between"><span>Restart Loop</span> <kbd className="bg-zinc-800 px-1 rounded">R</kbd></li>
-                </ul>
-            </div>
+            <ShortcutsPanel settings={shortcutSettings} onChange={handleShortcutSettingsChange} />
+
+            <MidiPanel
+                bindings={midiBindings}
+                onBindingsChange={handleMidiBindingsChange}
+                onCommand={(id) => session.runCommand(id)}
+                shortcutSettings={shortcutSettings}
+            />
         </div>
       </div>
 
       {/* Bottom Controls */}
       <ControlPanel 
           isPlaying={isPlaying}
-          onPlayPause={togglePlayPause}
+          onPlayPause={controls.playPause}
           duration={duration}
-          currentTime={currentTime}
-          onSeek={handleSeek}
+          getTime={session.getTime}
+          onSeek={controls.seek}
           loopStart={loopStart}
           loopEnd={loopEnd}
-          onLoopStartChange={(t) => setLoopStart(Math.max(0, t))}
-          onLoopEndChange={(t) => setLoopEnd(Math.min(duration, t))}
+          onLoopStartChange={controls.setLoopStart}
+          onLoopEndChange={controls.setLoopEnd}
           isLooping={isLooping}
-          onToggleLoop={() => setIsLooping(!isLooping)}
+          onToggleLoop={controls.toggleLoop}
           playbackRate={playbackRate}
-          onPlaybackRateChange={setPlaybackRate}
+          onPlaybackRateChange={controls.setPlaybackRate}
           videoVolume={videoVolume}
           onVideoVolumeChange={setVideoVolume}
+          sections={sections}
+          activeSectionId={activeSection?.id ?? null}
+          onSectionSelect={handleSelectSection}
+          notes={notes}
+          activeNoteId={activeNote?.id ?? null}
+          onNoteSelect={handleSelectNote}
+          trainer={trainer}
+          trainerRepsPerStep={trainerSettings.repsPerStep}
+          onTrainerMiss={controls.missTrainerRep}
+          routine={activeRoutine}
+          routineProgress={routineRun?.progress ?? null}
+          onRoutineStop={controls.stopRoutine}
+          tempoMap={tempoMap}
+          snapMode={snapMode}
+          onSnapModeChange={setSnapMode}
       />
     </div>
   );
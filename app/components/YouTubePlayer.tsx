@@ -1,30 +1,25 @@
 "use client";
 
 import { useEffect, useRef, forwardRef, useImperativeHandle } from "react";
-import ReactYouTube, { YouTubeProps } from "react-youtube";
+import ReactYouTube, { YouTubeProps, YouTubeEvent } from "react-youtube";
+import { PlayerHandle, PlayerProps } from "../lib/player";
 
-interface YouTubePlayerProps {
+interface YouTubePlayerProps extends PlayerProps {
   videoId: string;
-  playbackRate: number;
-  onReady?: (event: any) => void;
-  onStateChange?: (event: any) => void;
-  onProgress?: (currentTime: number) => void;
 }
 
-export interface YouTubePlayerRef {
-  internalPlayer: any;
-  seekTo: (seconds: number) => void;
-  setVolume: (volume: number) => void;
-  getCurrentTime: () => Promise<number>;
-}
-
-const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(
-  ({ videoId, playbackRate, onReady, onStateChange, onProgress }, ref) => {
+const YouTubePlayer = forwardRef<PlayerHandle, YouTubePlayerProps>(
+  ({ videoId, playbackRate, onReady, onPlayingChange, onProgress, onEnded }, ref) => {
     const playerRef = useRef<any>(null);
     const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
     useImperativeHandle(ref, () => ({
-      internalPlayer: playerRef.current,
+      play: () => {
+        playerRef.current?.playVideo();
+      },
+      pause: () => {
+        playerRef.current?.pauseVideo();
+      },
       seekTo: (seconds: number) => {
         playerRef.current?.seekTo(seconds, true);
       },
@@ -62,7 +57,18 @@ const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(
     const handleReady = (event: any) => {
       playerRef.current = event.target;
       playerRef.current.setPlaybackRate(playbackRate);
-      if (onReady) onReady(event);
+      if (onReady) {
+        onReady({
+          duration: event.target.getDuration(),
+          title: event.target.getVideoData()?.title ?? "",
+        });
+      }
+    };
+
+    const handleStateChange = (event: YouTubeEvent<number>) => {
+      // 0 = Ended, 1 = Playing, 2 = Paused
+      if (onPlayingChange) onPlayingChange(event.data === 1);
+      if (event.data === 0) onEnded?.();
     };
 
     // Polling for progress updates since iframe API doesn't have a frequent timeupdate event
@@ -85,7 +91,7 @@ const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(
           videoId={videoId}
           opts={opts}
           onReady={handleReady}
-          onStateChange={onStateChange}
+          onStateChange={handleStateChange}
           className="w-full h-full"
           iframeClassName="w-full h-full"
         />
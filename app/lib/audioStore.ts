@@ -0,0 +1,48 @@
+// The IndexedDB database for audio the app keeps: recorded takes and
+// uploaded click samples. Audio is far too big for the localStorage document.
+// Bump DB_VERSION and add to `upgrade` whenever a store or index is added.
+
+// Named for its first store; kept so existing takes are found
+const DB_NAME = "drum_practice_takes";
+const DB_VERSION = 2;
+
+export type AudioStoreName = "takes" | "samples";
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  // 0 -> 1: takes, looked up by video
+  if (oldVersion < 1) {
+    const takes = db.createObjectStore("takes", { keyPath: "id" });
+    takes.createIndex("videoId", "videoId");
+  }
+  // 1 -> 2: click samples
+  if (oldVersion < 2) db.createObjectStore("samples", { keyPath: "id" });
+};
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (e) => upgrade(request.result, e.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs one request in its own transaction and resolves once it's committed
+export const runRequest = async <T>(
+  storeName: AudioStoreName,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
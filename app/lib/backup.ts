@@ -0,0 +1,301 @@
+// Export / import of all practice data as a JSON file.
+
+import { PracticeData, VersionedData, VideoData, HistoryEntry, AppSettings, SCHEMA_VERSION, migrate } from "./storage";
+import type { Setlist } from "./setlists";
+import { DENOMINATORS, MAX_BEATS_PER_BAR, isBeatPattern, isBeatUnit } from "./subdivisions";
+
+const FILE_TYPE = "drum-practice-backup";
+
+export type ImportMode = "merge" | "replace";
+
+export class BackupError extends Error {
+  constructor(message: string, public problems: string[] = []) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+// --- Validation ---
+// Each check returns human readable problems, with a path to the bad value.
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const checkFields = (value: unknown, path: string, fields: Record<string, "string" | "number">): string[] => {
+  if (!isObject(value)) return [`${path} must be an object`];
+  return Object.entries(fields).flatMap(([key, type]) => {
+    const field = value[key];
+    const ok = type === "number" ? isNumber(field) : typeof field === "string";
+    return ok ? [] : [`${path}.${key} must be a ${type}`];
+  });
+};
+
+const checkVideo = (video: unknown, path: string): string[] => {
+  if (!isObject(video)) return [`${path} must be an object`];
+  const problems: string[] = [];
+
+  if (video.sections !== undefined) {
+    if (!Array.isArray(video.sections)) problems.push(`${path}.sections must be a list`);
+    else video.sections.forEach((section, i) => {
+      problems.push(...checkFields(section, `${path}.sections[${i}]`, {
+        id: "string", name: "string", start: "number", end: "number", color: "string",
+      }));
+    });
+  }
+
+  if (video.tempoMap !== undefined) {
+    const tempoPath = `${path}.tempoMap`;
+    problems.push(...checkFields(video.tempoMap, tempoPath, { downbeat: "number", bpm: "number", beatsPerBar: "number" }));
+    const changes = isObject(video.tempoMap) ? video.tempoMap.changes : undefined;
+    if (!Array.isArray(changes)) problems.push(`${tempoPath}.changes must be a list`);
+    else changes.forEach((change, i) => {
+      problems.push(...checkFields(change, `${tempoPath}.changes[${i}]`, { time: "number", bpm: "number", beatsPerBar: "number" }));
+    });
+  }
+
+  if (video.routines !== undefined) {
+    if (!Array.isArray(video.routines)) problems.push(`${path}.routines must be a list`);
+    else video.routines.forEach((routine, i) => {
+      const routinePath = `${path}.routines[${i}]`;
+      problems.push(...checkFields(routine, routinePath, { id: "string", name: "string" }));
+      const steps = isObject(routine) ? routine.steps : undefined;
+      if (!Array.isArray(steps)) problems.push(`${routinePath}.steps must be a list`);
+      else steps.forEach((step, j) => {
+        const stepPath = `${routinePath}.steps[${j}]`;
+        problems.push(...checkFields(step, stepPath, {
+          id: "string", name: "string", start: "number", end: "number", reps: "number", rate: "number",
+        }));
+        if (isObject(step) && step.bpm !== undefined && !isNumber(step.bpm)) {
+          problems.push(`${stepPath}.bpm must be a number`);
+        }
+      });
+    });
+  }
+
+  if (video.notes !== undefined) {
+    if (!Array.isArray(video.notes)) problems.push(`${path}.notes must be a list`);
+    else video.notes.forEach((note, i) => {
+      const notePath = `${path}.notes[${i}]`;
+      problems.push(...checkFields(note, notePath, { id: "string", text: "string", time: "number" }));
+      if (isObject(note) && note.end !== undefined && !isNumber(note.end)) {
+        problems.push(`${notePath}.end must be a number`);
+      }
+    });
+  }
+
+  return problems;
+};
+
+const checkShortcuts = (shortcuts: unknown): string[] => {
+  const path = "settings.shortcuts";
+  const problems = checkFields(shortcuts, path, { seekStep: "number", largeSeekStep: "number", nudgeStep: "number" });
+  const bindings = isObject(shortcuts) ? shortcuts.bindings : undefined;
+  if (!isObject(bindings)) problems.push(`${path}.bindings must be an object`);
+  else Object.entries(bindings).forEach(([id, keys]) => {
+    if (!Array.isArray(keys) || keys.some((k) => typeof k !== "string")) {
+      problems.push(`${path}.bindings.${id} must be a list of keys`);
+    }
+  });
+  return problems;
+};
+
+const checkMidi = (midi: unknown): string[] => {
+  if (!Array.isArray(midi)) return ["settings.midi must be a list"];
+  return midi.flatMap((binding, i) => {
+    const path = `settings.midi[${i}]`;
+    const problems = checkFields(binding, path, { command: "string" });
+    const trigger = isObject(binding) ? binding.trigger : undefined;
+    problems.push(...checkFields(trigger, `${path}.trigger`, { type: "string", channel: "number", number: "number" }));
+    return problems;
+  });
+};
+
+const checkTimeSignature = (timeSignature: unknown): string[] => {
+  const path = "settings.timeSignature";
+  if (!isObject(timeSignature)) return [`${path} must be an object`];
+  const problems: string[] = [];
+  if (!isBeatPattern(timeSignature.beatPattern)) {
+    problems.push(`${path}.beatPattern must be a list of 1 to ${MAX_BEATS_PER_BAR} beats, each 0, 1 or 2`);
+  }
+  if (!isBeatUnit(timeSignature.beatUnit)) problems.push(`${path}.beatUnit must be one of ${DENOMINATORS.join(", ")}`);
+  return problems;
+};
+
+const checkSettings = (settings: unknown): string[] => {
+  if (!isObject(settings)) return ["settings must be an object"];
+  return [
+    ...(settings.shortcuts !== undefined ? checkShortcuts(settings.shortcuts) : []),
+    ...(settings.midi !== undefined ? checkMidi(settings.midi) : []),
+    ...(settings.clickSounds !== undefined
+      ? checkFields(settings.clickSounds, "settings.clickSounds", { accent: "string", normal: "string", subdivision: "string", pan: "number" })
+      : []),
+    ...(settings.timeSignature !== undefined ? checkTimeSignature(settings.timeSignature) : []),
+    ...(settings.recordingLatency !== undefined && !isNumber(settings.recordingLatency)
+      ? ["settings.recordingLatency must be a number"]
+      : []),
+  ];
+};
+
+const checkHistoryEntry = (entry: unknown, path: string): string[] => {
+  const problems = checkFields(entry, path, { id: "string", title: "string", timestamp: "number" });
+  if (!isObject(entry)) return problems;
+  if (entry.customTitle !== undefined && typeof entry.customTitle !== "string") problems.push(`${path}.customTitle must be a string`);
+  if (entry.pinned !== undefined && typeof entry.pinned !== "boolean") problems.push(`${path}.pinned must be true or false`);
+  if (entry.practiceSeconds !== undefined && !isNumber(entry.practiceSeconds)) problems.push(`${path}.practiceSeconds must be a number`);
+  if (entry.tags !== undefined && (!Array.isArray(entry.tags) || entry.tags.some((t) => typeof t !== "string"))) {
+    problems.push(`${path}.tags must be a list of strings`);
+  }
+  return problems;
+};
+
+const checkSetlists = (setlists: unknown): string[] => {
+  if (!Array.isArray(setlists)) return ["setlists must be a list"];
+  return setlists.flatMap((setlist, i) => {
+    const path = `setlists[${i}]`;
+    const problems = checkFields(setlist, path, { id: "string", name: "string" });
+    const items = isObject(setlist) ? setlist.items : undefined;
+    if (!Array.isArray(items)) return [...problems, `${path}.items must be a list`];
+    items.forEach((item, j) => {
+      const itemPath = `${path}.items[${j}]`;
+      problems.push(...checkFields(item, itemPath, { id: "string", videoId: "string" }));
+      if (!isObject(item)) return;
+      if (item.title !== undefined && typeof item.title !== "string") problems.push(`${itemPath}.title must be a string`);
+      (["start", "end", "rate"] as const).forEach((key) => {
+        if (item[key] !== undefined && !isNumber(item[key])) problems.push(`${itemPath}.${key} must be a number`);
+      });
+    });
+    return problems;
+  });
+};
+
+export const validatePracticeData = (data: VersionedData): string[] => {
+  const problems: string[] = [];
+
+  if (!Array.isArray(data.history)) problems.push("history must be a list");
+  else data.history.forEach((entry, i) => problems.push(...checkHistoryEntry(entry, `history[${i}]`)));
+
+  if (!isObject(data.videos)) problems.push("videos must be an object");
+  else Object.entries(data.videos).forEach(([id, video]) => {
+    problems.push(...checkVideo(video, `videos["${id}"]`));
+  });
+
+  problems.push(...checkSettings(data.settings));
+  problems.push(...checkSetlists(data.setlists));
+
+  return problems;
+};
+
+// --- Import ---
+
+export const parseBackup = (text: string): PracticeData => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupError("This file isn't valid JSON");
+  }
+
+  // A bare array is a copy of the original drum_history key
+  const versioned: unknown = Array.isArray(raw) ? { version: 0, history: raw } : raw;
+  if (!isObject(versioned) || !isNumber(versioned.version)) {
+    throw new BackupError("This file isn't a practice data backup");
+  }
+  if (versioned.type !== undefined && versioned.type !== FILE_TYPE) {
+    throw new BackupError("This file isn't a practice data backup");
+  }
+
+  let data: VersionedData;
+  try {
+    data = migrate(versioned as VersionedData);
+  } catch (e) {
+    throw new BackupError(e instanceof Error ? e.message : "Unsupported backup version");
+  }
+
+  const problems = validatePracticeData(data);
+  if (problems.length > 0) {
+    throw new BackupError(`This backup has ${problems.length} problem${problems.length === 1 ? "" : "s"}`, problems);
+  }
+
+  return {
+    version: SCHEMA_VERSION,
+    history: data.history as HistoryEntry[],
+    videos: data.videos as Record<string, VideoData>,
+    settings: data.settings as AppSettings,
+    setlists: data.setlists as Setlist[],
+  };
+};
+
+// Imported entries win where both sides have the same item
+const mergeVideo = (current: VideoData = {}, incoming: VideoData): VideoData => {
+  const merged: VideoData = { ...current, ...incoming };
+  if (current.sections && incoming.sections) {
+    const incomingIds = new Set(incoming.sections.map((s) => s.id));
+    merged.sections = [...current.sections.filter((s) => !incomingIds.has(s.id)), ...incoming.sections];
+  }
+  if (current.routines && incoming.routines) {
+    const incomingIds = new Set(incoming.routines.map((r) => r.id));
+    merged.routines = [...current.routines.filter((r) => !incomingIds.has(r.id)), ...incoming.routines];
+  }
+  if (current.notes && incoming.notes) {
+    const incomingIds = new Set(incoming.notes.map((n) => n.id));
+    merged.notes = [...current.notes.filter((n) => !incomingIds.has(n.id)), ...incoming.notes];
+  }
+  return merged;
+};
+
+export const mergePracticeData = (current: PracticeData, incoming: PracticeData): PracticeData => {
+  // The newer entry wins, but practice time and tags from both sides are kept
+  const history = new Map<string, HistoryEntry>();
+  [...current.history, ...incoming.history].forEach((entry) => {
+    const existing = history.get(entry.id);
+    if (!existing) {
+      history.set(entry.id, entry);
+      return;
+    }
+    const [older, newer] = entry.timestamp >= existing.timestamp ? [existing, entry] : [entry, existing];
+    const tags = [...new Set([...(older.tags ?? []), ...(newer.tags ?? [])])];
+    const practiceSeconds = Math.max(older.practiceSeconds ?? 0, newer.practiceSeconds ?? 0);
+    history.set(entry.id, {
+      ...older,
+      ...newer,
+      ...(tags.length > 0 ? { tags } : {}),
+      ...(practiceSeconds > 0 ? { practiceSeconds } : {}),
+    });
+  });
+
+  const videos = { ...current.videos };
+  Object.entries(incoming.videos).forEach(([id, video]) => {
+    videos[id] = mergeVideo(videos[id], video);
+  });
+
+  const incomingSetlistIds = new Set(incoming.setlists.map((s) => s.id));
+
+  return {
+    version: SCHEMA_VERSION,
+    history: [...history.values()].sort((a, b) => b.timestamp - a.timestamp),
+    videos,
+    settings: { ...current.settings, ...incoming.settings },
+    setlists: [...current.setlists.filter((s) => !incomingSetlistIds.has(s.id)), ...incoming.setlists],
+  };
+};
+
+export const importPracticeData = (current: PracticeData, incoming: PracticeData, mode: ImportMode) =>
+  mode === "replace" ? incoming : mergePracticeData(current, incoming);
+
+// --- Export ---
+
+export const serializeBackup = (data: PracticeData) =>
+  JSON.stringify({ type: FILE_TYPE, exportedAt: new Date().toISOString(), ...data, version: SCHEMA_VERSION }, null, 2);
+
+export const downloadBackup = (data: PracticeData) => {
+  const blob = new Blob([serializeBackup(data)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `drum-practice-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
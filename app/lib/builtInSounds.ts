@@ -0,0 +1,232 @@
+// The metronome's built-in sounds, synthesized into AudioBuffers on first use
+// so the app doesn't ship any audio files. Each recipe plays its sound into an
+// OfflineAudioContext starting at time 0.
+
+type Recipe = (ctx: OfflineAudioContext) => void;
+
+// --- Building blocks ---
+
+const decay = (ctx: OfflineAudioContext, length: number, peak = 1) => {
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(peak, 0);
+  gain.gain.exponentialRampToValueAtTime(0.001, length);
+  gain.connect(ctx.destination);
+  return gain;
+};
+
+const tone = (ctx: OfflineAudioContext, type: OscillatorType, frequency: number, length: number, output: AudioNode) => {
+  const osc = ctx.createOscillator();
+  osc.type = type;
+  osc.frequency.value = frequency;
+  osc.connect(output);
+  osc.start(0);
+  osc.stop(length);
+  return osc;
+};
+
+const filter = (ctx: OfflineAudioContext, type: BiquadFilterType, frequency: number, q: number, output: AudioNode) => {
+  const node = ctx.createBiquadFilter();
+  node.type = type;
+  node.frequency.value = frequency;
+  node.Q.value = q;
+  node.connect(output);
+  return node;
+};
+
+const noiseBuffer = (ctx: BaseAudioContext, length: number) => {
+  const buffer = ctx.createBuffer(1, Math.ceil(length * ctx.sampleRate), ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  return buffer;
+};
+
+const noise = (ctx: OfflineAudioContext, length: number, output: AudioNode, start = 0) => {
+  const source = ctx.createBufferSource();
+  source.buffer = noiseBuffer(ctx, length);
+  source.connect(output);
+  source.start(start);
+  return source;
+};
+
+// --- Clicks and percussion ---
+
+const beep = (frequency: number, type: OscillatorType = "sine", length = 0.05): Recipe => (ctx) => {
+  tone(ctx, type, frequency, length, decay(ctx, length));
+};
+
+// A hollow, fast-dying knock
+const woodblock = (frequency: number): Recipe => (ctx) => {
+  const body = filter(ctx, "bandpass", frequency, 6, decay(ctx, 0.08));
+  tone(ctx, "triangle", frequency, 0.08, body);
+  tone(ctx, "sine", frequency * 2.7, 0.03, decay(ctx, 0.03, 0.3));
+};
+
+// Two detuned squares through a band-pass, after the classic drum machine cowbell
+const cowbell = (frequency: number): Recipe => (ctx) => {
+  const body = filter(ctx, "bandpass", frequency * 1.5, 2, decay(ctx, 0.3));
+  tone(ctx, "square", frequency, 0.3, body);
+  tone(ctx, "square", frequency * 1.48, 0.3, body);
+};
+
+const rimshot: Recipe = (ctx) => {
+  tone(ctx, "triangle", 1700, 0.03, decay(ctx, 0.03));
+  tone(ctx, "sine", 455, 0.04, decay(ctx, 0.04, 0.6));
+  noise(ctx, 0.04, filter(ctx, "bandpass", 3000, 1.5, decay(ctx, 0.04, 0.8)));
+};
+
+const sidestick: Recipe = (ctx) => {
+  tone(ctx, "triangle", 1200, 0.025, decay(ctx, 0.025, 0.8));
+  noise(ctx, 0.03, filter(ctx, "bandpass", 2200, 3, decay(ctx, 0.03, 0.5)));
+};
+
+// Metallic squares plus noise, high-passed down to the sizzle
+const hihat = (length: number): Recipe => (ctx) => {
+  const out = filter(ctx, "highpass", 7000, 0.7, decay(ctx, length));
+  [2, 3, 4.16, 5.43, 6.79, 8.21].forEach((ratio) => tone(ctx, "square", 40 * ratio * 10, length, out));
+  noise(ctx, length, out);
+};
+
+// --- Voice ---
+// A tiny formant synthesizer: a buzzing source shaped by three vocal tract
+// resonances gliding between vowel targets, plus filtered noise for consonants.
+
+type Formants = [number, number, number];
+
+type Phone =
+  | { formants: Formants; length: number; level?: number } // Voiced
+  | { hiss: number; length: number; level?: number }; // Unvoiced noise around a frequency
+
+const V = {
+  a: [730, 1090, 2440],
+  ae: [660, 1720, 2410],
+  uh: [640, 1190, 2390],
+  e: [480, 1800, 2500],
+  eh: [530, 1840, 2480],
+  schwa: [500, 1500, 2500],
+  i: [270, 2290, 3010],
+  ih: [390, 1990, 2550],
+  aw: [570, 840, 2410],
+  oo: [300, 870, 2240],
+  w: [300, 700, 2200],
+  r: [310, 1060, 1380],
+  l: [360, 1300, 2700],
+  n: [250, 1700, 2600],
+  v: [250, 1200, 2400],
+} satisfies Record<string, Formants>;
+
+const voiced = (formants: Formants, length: number, level = 1): Phone => ({ formants, length, level });
+const hiss = (frequency: number, length: number, level = 0.5): Phone => ({ hiss: frequency, length, level });
+const tBurst = hiss(4500, 0.03, 0.7);
+const sHiss = hiss(7000, 0.09, 0.4);
+
+const WORDS: Record<string, Phone[]> = {
+  "1": [voiced(V.w, 0.06, 0.6), voiced(V.uh, 0.14), voiced(V.n, 0.1, 0.4)],
+  "2": [tBurst, voiced(V.oo, 0.22)],
+  "3": [hiss(6000, 0.08, 0.3), voiced(V.r, 0.06, 0.6), voiced(V.i, 0.18)],
+  "4": [hiss(7500, 0.08, 0.3), voiced(V.aw, 0.16), voiced(V.r, 0.08, 0.6)],
+  "5": [hiss(7500, 0.08, 0.3), voiced(V.a, 0.1), voiced(V.ih, 0.1), voiced(V.v, 0.05, 0.3)],
+  "6": [sHiss, voiced(V.ih, 0.1), hiss(2500, 0.03, 0.6), sHiss],
+  "7": [sHiss, voiced(V.eh, 0.1), voiced(V.v, 0.04, 0.3), voiced(V.schwa, 0.06), voiced(V.n, 0.08, 0.4)],
+  "8": [voiced(V.e, 0.1), voiced(V.ih, 0.12), tBurst],
+  "9": [voiced(V.n, 0.05, 0.4), voiced(V.a, 0.1), voiced(V.ih, 0.1), voiced(V.n, 0.08, 0.4)],
+  "10": [tBurst, voiced(V.eh, 0.15), voiced(V.n, 0.08, 0.4)],
+  "11": [voiced(V.ih, 0.05), voiced(V.l, 0.05, 0.6), voiced(V.eh, 0.1), voiced(V.v, 0.04, 0.3), voiced(V.schwa, 0.05), voiced(V.n, 0.08, 0.4)],
+  "12": [tBurst, voiced(V.w, 0.05, 0.6), voiced(V.eh, 0.12), voiced(V.l, 0.05, 0.6), voiced(V.v, 0.05, 0.3)],
+};
+
+const FORMANT_LEVELS = [1, 0.5, 0.25];
+const FORMANT_Q = [5, 12, 16];
+const GLIDE = 0.02; // Seconds to move between phones
+
+const speak = (phones: Phone[]): Recipe => (ctx) => {
+  const length = phones.reduce((sum, p) => sum + p.length, 0);
+
+  // Voiced source: a falling pitch, like a spoken count
+  const voice = ctx.createGain();
+  voice.gain.setValueAtTime(0, 0);
+  const source = ctx.createOscillator();
+  source.type = "sawtooth";
+  source.frequency.setValueAtTime(140, 0);
+  source.frequency.linearRampToValueAtTime(100, length);
+  source.start(0);
+  source.stop(length);
+
+  const firstVoiced = phones.find((p): p is Extract<Phone, { formants: Formants }> => "formants" in p);
+  const tract = [0, 1, 2].map((i) => {
+    const level = ctx.createGain();
+    level.gain.value = FORMANT_LEVELS[i];
+    level.connect(voice);
+    const band = filter(ctx, "bandpass", firstVoiced?.formants[i] ?? 500, FORMANT_Q[i], level);
+    band.frequency.setValueAtTime(band.frequency.value, 0);
+    source.connect(band);
+    return band;
+  });
+  voice.connect(ctx.destination);
+
+  let time = 0;
+  phones.forEach((phone) => {
+    const level = phone.level ?? 1;
+    if ("formants" in phone) {
+      tract.forEach((band, i) => band.frequency.linearRampToValueAtTime(phone.formants[i], time + GLIDE));
+      voice.gain.linearRampToValueAtTime(level, time + GLIDE);
+      voice.gain.setValueAtTime(level, time + phone.length - GLIDE);
+    } else {
+      voice.gain.linearRampToValueAtTime(0, time + GLIDE / 2);
+      const envelope = ctx.createGain();
+      envelope.gain.setValueAtTime(0, time);
+      envelope.gain.linearRampToValueAtTime(level, time + phone.length / 3);
+      envelope.gain.linearRampToValueAtTime(0, time + phone.length);
+      envelope.connect(ctx.destination);
+      noise(ctx, phone.length, filter(ctx, "bandpass", phone.hiss, 1.5, envelope), time);
+    }
+    time += phone.length;
+  });
+  voice.gain.linearRampToValueAtTime(0, length);
+};
+
+// --- Catalogue ---
+
+export const VOICE_COUNTS = Object.keys(WORDS).length;
+
+const RECIPES: Record<string, Recipe> = {
+  "beep-high": beep(1000),
+  "beep-low": beep(800),
+  tick: beep(1500, "triangle", 0.03),
+  "tick-low": beep(1100, "triangle", 0.03),
+  "woodblock-high": woodblock(1900),
+  "woodblock-low": woodblock(1400),
+  "cowbell-high": cowbell(700),
+  "cowbell-low": cowbell(540),
+  rimshot,
+  sidestick,
+  "hihat-closed": hihat(0.05),
+  "hihat-open": hihat(0.3),
+  ...Object.fromEntries(Object.entries(WORDS).map(([count, phones]) => [`voice:${count}`, speak(phones)])),
+};
+
+export const hasBuiltInSound = (id: string) => id in RECIPES;
+
+// Renders at the given context's sample rate, normalized so every sound peaks at the same level
+export const renderBuiltInSound = async (id: string, sampleRate: number): Promise<AudioBuffer> => {
+  const recipe = RECIPES[id];
+  if (!recipe) throw new Error(`Unknown sound "${id}"`);
+
+  const ctx = new OfflineAudioContext(1, Math.ceil(sampleRate * 0.6), sampleRate);
+  recipe(ctx);
+  const buffer = await ctx.startRendering();
+
+  const data = buffer.getChannelData(0);
+  let peak = 0;
+  let end = 0;
+  for (let i = 0; i < data.length; i++) {
+    const level = Math.abs(data[i]);
+    peak = Math.max(peak, level);
+    if (level > 0.0005) end = i + 1;
+  }
+  if (peak > 0) for (let i = 0; i < data.length; i++) data[i] *= 0.9 / peak;
+
+  // Trim the silent tail so short clicks don't carry half a second of nothing
+  const trimmed = new AudioBuffer({ length: Math.max(1, end), numberOfChannels: 1, sampleRate });
+  trimmed.copyToChannel(data.subarray(0, Math.max(1, end)), 0);
+  return trimmed;
+};
@@ -0,0 +1,192 @@
+// What the metronome sounds like: a sound for each kind of click, picked from
+// the built-in kits or uploaded samples, and where it sits in the stereo field.
+
+import { loadAppSettings, saveAppSettings } from "./storage";
+import { hasBuiltInSound, renderBuiltInSound, VOICE_COUNTS } from "./builtInSounds";
+import { loadSample } from "./samples";
+
+// Each subdivision level has its own sound: the "&" halfway through the beat,
+// the 16th "e"/"a" either side of it, and triplets and other tuplets
+export type ClickRole = "accent" | "normal" | "offbeat" | "subdivision" | "tuplet";
+
+export interface ClickSoundSettings {
+  accent: string; // Sound IDs: built-in, VOICE_SOUND or `sample:<id>`
+  normal: string;
+  offbeat: string;
+  subdivision: string;
+  tuplet: string;
+  pan: number; // -1 (left) to 1 (right)
+}
+
+// Says the beat number instead of clicking
+export const VOICE_SOUND = "voice";
+
+export const BUILT_IN_SOUNDS = [
+  { id: "beep-high", label: "Beep (high)" },
+  { id: "beep-low", label: "Beep (low)" },
+  { id: "tick", label: "Tick" },
+  { id: "tick-low", label: "Tick (low)" },
+  { id: "woodblock-high", label: "Woodblock (high)" },
+  { id: "woodblock-low", label: "Woodblock (low)" },
+  { id: "cowbell-high", label: "Cowbell (high)" },
+  { id: "cowbell-low", label: "Cowbell (low)" },
+  { id: "rimshot", label: "Rimshot" },
+  { id: "sidestick", label: "Side stick" },
+  { id: "hihat-closed", label: "Hi-hat (closed)" },
+  { id: "hihat-open", label: "Hi-hat (open)" },
+  { id: VOICE_SOUND, label: "Voice count" },
+];
+
+// Presets that set every sound at once
+export const CLICK_KITS: { id: string; label: string; sounds: Omit<ClickSoundSettings, "pan"> }[] = [
+  {
+    id: "beep",
+    label: "Beep",
+    sounds: { accent: "beep-high", normal: "beep-low", offbeat: "tick-low", subdivision: "tick", tuplet: "tick" },
+  },
+  {
+    id: "woodblock",
+    label: "Woodblock",
+    sounds: { accent: "woodblock-high", normal: "woodblock-low", offbeat: "tick-low", subdivision: "tick", tuplet: "sidestick" },
+  },
+  {
+    id: "cowbell",
+    label: "Cowbell",
+    sounds: { accent: "cowbell-high", normal: "cowbell-low", offbeat: "hihat-open", subdivision: "hihat-closed", tuplet: "tick" },
+  },
+  {
+    id: "rimshot",
+    label: "Rimshot",
+    sounds: { accent: "rimshot", normal: "sidestick", offbeat: "hihat-open", subdivision: "hihat-closed", tuplet: "tick" },
+  },
+  {
+    id: "hihat",
+    label: "Hi-hat",
+    sounds: { accent: "hihat-open", normal: "hihat-closed", offbeat: "sidestick", subdivision: "tick", tuplet: "tick-low" },
+  },
+  {
+    id: "voice",
+    label: "Voice 1-2-3-4",
+    sounds: { accent: VOICE_SOUND, normal: VOICE_SOUND, offbeat: "tick-low", subdivision: "tick", tuplet: "tick" },
+  },
+];
+
+export const DEFAULT_CLICK_SOUNDS: ClickSoundSettings = { ...CLICK_KITS[0].sounds, pan: 0 };
+
+export const CLICK_ROLES: { id: ClickRole; label: string }[] = [
+  { id: "accent", label: "Accent" },
+  { id: "normal", label: "Beat" },
+  { id: "offbeat", label: "8th &" },
+  { id: "subdivision", label: "16th e / a" },
+  { id: "tuplet", label: "Tuplets" },
+];
+
+export const loadClickSoundSettings = (): ClickSoundSettings => ({
+  ...DEFAULT_CLICK_SOUNDS,
+  ...loadAppSettings().clickSounds,
+});
+
+export const saveClickSoundSettings = (settings: ClickSoundSettings) => {
+  saveAppSettings({ clickSounds: settings });
+};
+
+export const sampleSoundId = (sampleId: string) => `sample:${sampleId}`;
+
+export const findKit = (settings: ClickSoundSettings) =>
+  CLICK_KITS.find(({ sounds }) => CLICK_ROLES.every(({ id }) => sounds[id] === settings[id])) ?? null;
+
+// The buffer to load for a sound; the voice has one per count
+const bufferId = (soundId: string, count: number) =>
+  soundId === VOICE_SOUND ? `voice:${((count - 1) % VOICE_COUNTS) + 1}` : soundId;
+
+const BEEP_FREQUENCIES: Record<ClickRole, number> = { accent: 1000, normal: 800, offbeat: 1200, subdivision: 1500, tuplet: 1350 };
+
+export interface PlayOptions {
+  count?: number; // 1-based beat number, for the voice
+  rate?: number; // Playback speed, which also shifts the pitch
+}
+
+// Plays clicks on one AudioContext. Buffers are rendered or decoded once and
+// cached; a click whose buffer isn't ready yet falls back to a plain beep.
+export class ClickSoundEngine {
+  private buffers = new Map<string, AudioBuffer>();
+  private loading = new Map<string, Promise<void>>();
+  private output: StereoPannerNode;
+  private settings = DEFAULT_CLICK_SOUNDS;
+
+  constructor(private ctx: AudioContext) {
+    this.output = ctx.createStereoPanner();
+    this.output.connect(ctx.destination);
+  }
+
+  setSettings(settings: ClickSoundSettings) {
+    this.settings = settings;
+    this.output.pan.value = settings.pan;
+    CLICK_ROLES.forEach(({ id }) => this.preload(settings[id]));
+  }
+
+  // Resolves once the sound is ready; failures leave the fallback beep in place
+  preload(soundId: string): Promise<void> {
+    const ids = soundId === VOICE_SOUND
+      ? Array.from({ length: VOICE_COUNTS }, (_, i) => bufferId(soundId, i + 1))
+      : [soundId];
+    return Promise.all(ids.map((id) => this.load(id))).then(() => undefined);
+  }
+
+  play(time: number, role: ClickRole, gain: number, { count = 1, rate = 1 }: PlayOptions = {}): AudioScheduledSourceNode {
+    const envelope = this.ctx.createGain();
+    envelope.gain.value = gain;
+    envelope.connect(this.output);
+
+    const buffer = this.buffers.get(bufferId(this.settings[role], count));
+    if (!buffer) return this.beep(time, role, rate, envelope);
+
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = rate;
+    source.connect(envelope);
+    source.start(time);
+    return source;
+  }
+
+  private load(id: string): Promise<void> {
+    const pending = this.loading.get(id);
+    if (pending) return pending;
+
+    const promise = this.decode(id)
+      .then((buffer) => {
+        this.buffers.set(id, buffer);
+      })
+      .catch((e) => {
+        console.error(`Failed to load click sound "${id}"`, e);
+        this.loading.delete(id); // Let a later attempt try again
+      });
+    this.loading.set(id, promise);
+    return promise;
+  }
+
+  private async decode(id: string): Promise<AudioBuffer> {
+    if (hasBuiltInSound(id)) return renderBuiltInSound(id, this.ctx.sampleRate);
+    if (id.startsWith("sample:")) {
+      const sample = await loadSample(id.slice("sample:".length));
+      if (!sample) throw new Error("Sample not found");
+      return this.ctx.decodeAudioData(await sample.audio.arrayBuffer());
+    }
+    throw new Error("Unknown sound");
+  }
+
+  // The original oscillator click
+  private beep(time: number, role: ClickRole, rate: number, output: GainNode) {
+    const isBeat = role === "accent" || role === "normal";
+    const length = isBeat ? 0.05 : 0.03;
+    const osc = this.ctx.createOscillator();
+    if (!isBeat) osc.type = "triangle";
+    osc.frequency.value = BEEP_FREQUENCIES[role] * rate;
+    output.gain.setValueAtTime(output.gain.value, time);
+    output.gain.exponentialRampToValueAtTime(0.001, time + length);
+    osc.connect(output);
+    osc.start(time);
+    osc.stop(time + length);
+    return osc;
+  }
+}
@@ -0,0 +1,136 @@
+// Central list of Workspace commands and their (remappable) key bindings.
+// Keys are stored as KeyboardEvent.code with modifiers, e.g. "Shift+ArrowLeft".
+
+import { loadAppSettings, saveAppSettings } from "./storage";
+
+export type CommandId =
+  | "playPause"
+  | "restartLoop"
+  | "toggleLoop"
+  | "seekBack"
+  | "seekForward"
+  | "seekBackLarge"
+  | "seekForwardLarge"
+  | "setLoopIn"
+  | "setLoopOut"
+  | "nudgeInEarlier"
+  | "nudgeInLater"
+  | "nudgeOutEarlier"
+  | "nudgeOutLater"
+  | "speedDown"
+  | "speedUp"
+  | "toggleMetronome"
+  | "tapTempo";
+
+export type KeyBindings = Record<CommandId, string[]>;
+
+export interface ShortcutSettings {
+  bindings: Partial<KeyBindings>; // Only what differs from the defaults
+  seekStep: number;
+  largeSeekStep: number;
+  nudgeStep: number;
+}
+
+export interface CommandDefinition {
+  id: CommandId;
+  label: string | ((settings: ShortcutSettings) => string);
+  defaultKeys: string[];
+}
+
+export const COMMANDS: CommandDefinition[] = [
+  { id: "playPause", label: "Play / Pause", defaultKeys: ["Space"] },
+  { id: "restartLoop", label: "Restart Loop", defaultKeys: ["KeyR"] },
+  { id: "toggleLoop", label: "Toggle Loop", defaultKeys: ["KeyL"] },
+  { id: "seekBack", label: (s) => `Rewind ${s.seekStep}s`, defaultKeys: ["ArrowLeft"] },
+  { id: "seekForward", label: (s) => `Forward ${s.seekStep}s`, defaultKeys: ["ArrowRight"] },
+  { id: "seekBackLarge", label: (s) => `Rewind ${s.largeSeekStep}s`, defaultKeys: ["Shift+ArrowLeft"] },
+  { id: "seekForwardLarge", label: (s) => `Forward ${s.largeSeekStep}s`, defaultKeys: ["Shift+ArrowRight"] },
+  { id: "setLoopIn", label: "Set IN at Playhead", defaultKeys: ["KeyI"] },
+  { id: "setLoopOut", label: "Set OUT at Playhead", defaultKeys: ["KeyO"] },
+  { id: "nudgeInEarlier", label: (s) => `Nudge IN −${s.nudgeStep}s`, defaultKeys: ["BracketLeft"] },
+  { id: "nudgeInLater", label: (s) => `Nudge IN +${s.nudgeStep}s`, defaultKeys: ["BracketRight"] },
+  { id: "nudgeOutEarlier", label: (s) => `Nudge OUT −${s.nudgeStep}s`, defaultKeys: ["Shift+BracketLeft"] },
+  { id: "nudgeOutLater", label: (s) => `Nudge OUT +${s.nudgeStep}s`, defaultKeys: ["Shift+BracketRight"] },
+  { id: "speedDown", label: "Slower", defaultKeys: ["Minus"] },
+  { id: "speedUp", label: "Faster", defaultKeys: ["Equal"] },
+  { id: "toggleMetronome", label: "Start / Stop Metronome", defaultKeys: ["KeyM"] },
+  { id: "tapTempo", label: "Tap Tempo", defaultKeys: ["KeyT"] },
+];
+
+export const DEFAULT_SHORTCUT_SETTINGS: ShortcutSettings = {
+  bindings: {},
+  seekStep: 5,
+  largeSeekStep: 15,
+  nudgeStep: 0.1,
+};
+
+export const loadShortcutSettings = (): ShortcutSettings => ({
+  ...DEFAULT_SHORTCUT_SETTINGS,
+  ...loadAppSettings().shortcuts,
+});
+
+export const saveShortcutSettings = (settings: ShortcutSettings) => {
+  saveAppSettings({ shortcuts: settings });
+};
+
+export const getCommandLabel = (command: CommandDefinition, settings: ShortcutSettings) =>
+  typeof command.label === "function" ? command.label(settings) : command.label;
+
+export const resolveBindings = (settings: ShortcutSettings): KeyBindings =>
+  Object.fromEntries(
+    COMMANDS.map((command) => [command.id, settings.bindings[command.id] ?? command.defaultKeys])
+  ) as KeyBindings;
+
+// Bind `key` to `id`, taking it away from any other command that had it
+export const bindKey = (settings: ShortcutSettings, id: CommandId, key: string): ShortcutSettings => {
+  const resolved = resolveBindings(settings);
+  const bindings: Partial<KeyBindings> = { ...settings.bindings };
+  COMMANDS.forEach((command) => {
+    if (command.id !== id && resolved[command.id].includes(key)) {
+      bindings[command.id] = resolved[command.id].filter((k) => k !== key);
+    }
+  });
+  if (!resolved[id].includes(key)) bindings[id] = [...resolved[id], key];
+  return { ...settings, bindings };
+};
+
+export const unbindKey = (settings: ShortcutSettings, id: CommandId, key: string): ShortcutSettings => ({
+  ...settings,
+  bindings: { ...settings.bindings, [id]: resolveBindings(settings)[id].filter((k) => k !== key) },
+});
+
+const MODIFIER_CODES = ["ShiftLeft", "ShiftRight", "ControlLeft", "ControlRight", "AltLeft", "AltRight", "MetaLeft", "MetaRight"];
+
+// null for a bare modifier press, which can't be a binding on its own
+export const keyFromEvent = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_CODES.includes(e.code)) return null;
+  const modifiers = [e.ctrlKey && "Ctrl", e.altKey && "Alt", e.metaKey && "Meta", e.shiftKey && "Shift"].filter(Boolean);
+  return [...modifiers, e.code].join("+");
+};
+
+export const findCommand = (bindings: KeyBindings, key: string): CommandId | undefined =>
+  COMMANDS.find((command) => bindings[command.id].includes(key))?.id;
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  BracketLeft: "[",
+  BracketRight: "]",
+  Minus: "-",
+  Equal: "=",
+  Comma: ",",
+  Period: ".",
+  Slash: "/",
+  Semicolon: ";",
+  Quote: "'",
+  Backquote: "`",
+  Backslash: "\\",
+};
+
+export const formatKey = (key: string) =>
+  key
+    .split("+")
+    .map((part) => KEY_NAMES[part] ?? part.replace(/^Key|^Digit/, ""))
+    .join(" + ");
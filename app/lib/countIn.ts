@@ -0,0 +1,21 @@
+// Count-in played before each loop repetition
+
+export interface CountInSettings {
+  enabled: boolean;
+  bars: number; // 0 (rest only), 1 or 2
+  restSeconds: number; // Silence between the end of the loop and the first click
+}
+
+export const DEFAULT_COUNT_IN: CountInSettings = {
+  enabled: false,
+  bars: 1,
+  restSeconds: 0,
+};
+
+// One count-in as the metronome plays it
+export interface CountInOptions {
+  bpm: number;
+  beatsPerBar: number;
+  bars: number;
+  delay: number; // Seconds of silence before the first click
+}
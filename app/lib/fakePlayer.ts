@@ -0,0 +1,109 @@
+// A stand-in player on a simulated clock, for running PracticeSession (or
+// anything else written against PlayerHandle) without a YouTube iframe or media
+// element. Time only moves when advance() is called, and progress is reported
+// every `tick` seconds like the real backends' polling. Typical wiring:
+//
+//   const player = new FakePlayer({ duration: 60 });
+//   const session = new PracticeSession({ player: { current: player }, now: player.now });
+//   player.connect({ onProgress: session.handleProgress, onFrame: session.tick, ... });
+//   session.subscribe(() => (player.playbackRate = session.getState().playbackRate));
+
+import type { PlayerHandle, PlayerProps } from "./player";
+
+export type PlayerCallbacks = Pick<PlayerProps, "onPlayingChange" | "onProgress" | "onEnded"> & {
+  onFrame?: () => void; // Stands in for requestAnimationFrame, once per simulated frame
+};
+
+export interface FakePlayerOptions {
+  duration: number;
+  tick?: number; // Seconds between progress reports
+  frame?: number; // Seconds between onFrame calls
+}
+
+export class FakePlayer implements PlayerHandle {
+  currentTime = 0;
+  isPlaying = false;
+  playbackRate = 1;
+  volume = 100;
+  // Every transport call in order, to check what the code driving the player did
+  calls: { method: "play" | "pause" | "seekTo"; seconds?: number }[] = [];
+
+  readonly duration: number;
+  private tick: number;
+  private frame: number;
+  private elapsed = 0; // Simulated seconds since the player was created
+  private nextReport: number;
+  private nextFrame: number;
+  private callbacks: PlayerCallbacks = {};
+
+  constructor({ duration, tick = 0.1, frame = 1 / 60 }: FakePlayerOptions) {
+    this.duration = duration;
+    this.tick = tick;
+    this.frame = frame;
+    this.nextReport = tick;
+    this.nextFrame = frame;
+  }
+
+  // The simulated clock in ms, to stand in for performance.now()
+  now = () => this.elapsed * 1000;
+
+  connect(callbacks: PlayerCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  play() {
+    this.calls.push({ method: "play" });
+    if (this.isPlaying) return;
+    if (this.currentTime >= this.duration) this.currentTime = 0; // Like a media element, play after the end restarts
+    this.isPlaying = true;
+    this.callbacks.onPlayingChange?.(true);
+  }
+
+  pause() {
+    this.calls.push({ method: "pause" });
+    if (!this.isPlaying) return;
+    this.isPlaying = false;
+    this.callbacks.onPlayingChange?.(false);
+  }
+
+  seekTo(seconds: number) {
+    this.calls.push({ method: "seekTo", seconds });
+    this.currentTime = Math.min(this.duration, Math.max(0, seconds));
+  }
+
+  setVolume(volume: number) {
+    this.volume = volume;
+  }
+
+  getCurrentTime() {
+    return Promise.resolve(this.currentTime);
+  }
+
+  // Run the clock forward by `seconds` of real time (media time moves at the playback rate)
+  advance(seconds: number) {
+    const end = this.elapsed + seconds;
+    while (this.elapsed < end - 1e-9) {
+      const at = Math.min(this.nextReport, this.nextFrame, end);
+      this.step(at - this.elapsed);
+      if (at >= this.nextFrame - 1e-9) {
+        this.nextFrame += this.frame;
+        this.callbacks.onFrame?.();
+      }
+      if (at >= this.nextReport - 1e-9) {
+        this.nextReport += this.tick;
+        this.callbacks.onProgress?.(this.currentTime);
+      }
+    }
+  }
+
+  private step(seconds: number) {
+    this.elapsed += seconds;
+    if (!this.isPlaying) return;
+    this.currentTime = Math.min(this.duration, this.currentTime + seconds * this.playbackRate);
+    if (this.currentTime >= this.duration) {
+      this.isPlaying = false;
+      this.callbacks.onPlayingChange?.(false);
+      this.callbacks.onEnded?.();
+    }
+  }
+}
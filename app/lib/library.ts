@@ -0,0 +1,63 @@
+// The practice library: the history list with the user's own titles, tags,
+// pins and practice time on top. No size limit.
+
+import { HistoryEntry, loadData, saveData } from "./storage";
+
+export type LibrarySort = "recent" | "practiced" | "title";
+
+export const LIBRARY_SORTS: { id: LibrarySort; label: string }[] = [
+  { id: "recent", label: "Last practiced" },
+  { id: "practiced", label: "Most practiced" },
+  { id: "title", label: "Title" },
+];
+
+export const loadLibrary = (): HistoryEntry[] => loadData().history;
+
+export const saveLibrary = (entries: HistoryEntry[]) => {
+  const data = loadData();
+  data.history = entries;
+  saveData(data);
+};
+
+export const entryTitle = (entry: HistoryEntry) => entry.customTitle || entry.title;
+
+// "Jazz, exam piece" -> ["jazz", "exam piece"]
+export const parseTags = (text: string): string[] =>
+  [...new Set(text.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+
+export const libraryTags = (entries: HistoryEntry[]) =>
+  [...new Set(entries.flatMap((entry) => entry.tags ?? []))].sort();
+
+// Pinned songs first, then by `sort`. The query matches titles and tags.
+export const filterLibrary = (entries: HistoryEntry[], query: string, sort: LibrarySort, tag: string | null) => {
+  const needle = query.trim().toLowerCase();
+  const matches = entries.filter((entry) => {
+    if (tag && !entry.tags?.includes(tag)) return false;
+    if (!needle) return true;
+    return [entry.title, entry.customTitle ?? "", ...(entry.tags ?? [])].some((text) => text.toLowerCase().includes(needle));
+  });
+
+  const compare = (a: HistoryEntry, b: HistoryEntry) => {
+    if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+    if (sort === "practiced") return (b.practiceSeconds ?? 0) - (a.practiceSeconds ?? 0);
+    if (sort === "title") return entryTitle(a).localeCompare(entryTitle(b));
+    return b.timestamp - a.timestamp;
+  };
+  return [...matches].sort(compare);
+};
+
+export const updateEntry = (entries: HistoryEntry[], id: string, patch: Partial<Omit<HistoryEntry, "id">>) =>
+  entries.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry));
+
+// Saved sections, tempo maps etc. are kept, so they come back if the video is opened again
+export const removeEntry = (entries: HistoryEntry[], id: string) => entries.filter((entry) => entry.id !== id);
+
+// Called while a video plays; songs that aren't in the library are ignored
+export const addPracticeTime = (id: string, seconds: number) => {
+  const data = loadData();
+  const entry = data.history.find((h) => h.id === id);
+  if (!entry || seconds <= 0) return;
+  entry.practiceSeconds = (entry.practiceSeconds ?? 0) + seconds;
+  entry.timestamp = Date.now();
+  saveData(data);
+};
@@ -0,0 +1,201 @@
+import { describe, expect, it, vi } from "vitest";
+import type { CommandId } from "./commands";
+import {
+  MidiAccessLike,
+  MidiBinding,
+  MidiInputLike,
+  MidiTrigger,
+  bindTrigger,
+  countMidiInputs,
+  findMidiCommand,
+  formatTrigger,
+  listenToMidi,
+  parseMidiMessage,
+} from "./midi";
+
+// Stands in for MIDIAccess: inputs can be plugged in and out, firing onstatechange like the browser does
+class FakeMidiAccess implements MidiAccessLike {
+  private list: FakeMidiInput[] = [];
+  onstatechange: ((event: unknown) => void) | null = null;
+
+  inputs = { forEach: (callback: (input: MidiInputLike) => void) => this.list.forEach(callback) };
+
+  plugIn(input: FakeMidiInput) {
+    this.list.push(input);
+    this.onstatechange?.({ port: input });
+  }
+
+  unplug(input: FakeMidiInput) {
+    this.list = this.list.filter((i) => i !== input);
+    this.onstatechange?.({ port: input });
+  }
+}
+
+class FakeMidiInput implements MidiInputLike {
+  onmidimessage: MidiInputLike["onmidimessage"] = null;
+
+  constructor(public id: string, public name = id) {}
+
+  send(...bytes: number[]) {
+    this.onmidimessage?.({ data: new Uint8Array(bytes) });
+  }
+}
+
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+const CC = 0xb0;
+const SUSTAIN = 64;
+
+const note = (number: number, channel = 1): MidiTrigger => ({ type: "note", channel, number });
+const cc = (number: number, channel = 1): MidiTrigger => ({ type: "cc", channel, number });
+
+const setup = (...inputs: FakeMidiInput[]) => {
+  const access = new FakeMidiAccess();
+  inputs.forEach((input) => access.plugIn(input));
+  const onTrigger = vi.fn<(trigger: MidiTrigger) => void>();
+  const stop = listenToMidi(access, onTrigger);
+  return { access, onTrigger, stop };
+};
+
+describe("listenToMidi", () => {
+  it("turns a note-on into a note trigger on its channel", () => {
+    const pad = new FakeMidiInput("pad");
+    const { onTrigger } = setup(pad);
+    pad.send(NOTE_ON, 38, 100);
+    pad.send(NOTE_ON | 9, 36, 127);
+    expect(onTrigger.mock.calls).toEqual([[note(38)], [note(36, 10)]]);
+  });
+
+  it("treats a note-on with velocity 0 as a note-off", () => {
+    const pad = new FakeMidiInput("pad");
+    const { onTrigger } = setup(pad);
+    pad.send(NOTE_ON, 38, 0);
+    pad.send(NOTE_OFF, 38, 64);
+    expect(onTrigger).not.toHaveBeenCalled();
+  });
+
+  it("fires a pedal once when it goes down, not while held or on release", () => {
+    const pedal = new FakeMidiInput("pedal");
+    const { onTrigger } = setup(pedal);
+    pedal.send(CC, SUSTAIN, 127);
+    pedal.send(CC, SUSTAIN, 100); // Half-pedal wobble while held
+    pedal.send(CC, SUSTAIN, 127);
+    pedal.send(CC, SUSTAIN, 0);
+    expect(onTrigger.mock.calls).toEqual([[cc(SUSTAIN)]]);
+
+    pedal.send(CC, SUSTAIN, 127);
+    expect(onTrigger.mock.calls).toEqual([[cc(SUSTAIN)], [cc(SUSTAIN)]]);
+  });
+
+  it("tracks each controller and channel separately", () => {
+    const pedal = new FakeMidiInput("pedal");
+    const { onTrigger } = setup(pedal);
+    pedal.send(CC, SUSTAIN, 127);
+    pedal.send(CC | 1, SUSTAIN, 127);
+    pedal.send(CC, 67, 127);
+    expect(onTrigger.mock.calls).toEqual([[cc(SUSTAIN)], [cc(SUSTAIN, 2)], [cc(67)]]);
+  });
+
+  it("ignores short and empty messages", () => {
+    const pad = new FakeMidiInput("pad");
+    const { onTrigger } = setup(pad);
+    pad.send(0xf8); // Clock
+    pad.onmidimessage?.({ data: null });
+    expect(onTrigger).not.toHaveBeenCalled();
+  });
+
+  it("listens on inputs plugged in after it started", () => {
+    const { access, onTrigger } = setup();
+    expect(countMidiInputs(access)).toBe(0);
+
+    const pad = new FakeMidiInput("pad");
+    access.plugIn(pad);
+    expect(countMidiInputs(access)).toBe(1);
+    pad.send(NOTE_ON, 38, 100);
+    expect(onTrigger).toHaveBeenCalledWith(note(38));
+  });
+
+  it("keeps listening on the other inputs when one is unplugged", () => {
+    const pad = new FakeMidiInput("pad");
+    const pedal = new FakeMidiInput("pedal");
+    const { access, onTrigger } = setup(pad, pedal);
+    access.unplug(pad);
+    pedal.send(CC, SUSTAIN, 127);
+    expect(onTrigger).toHaveBeenCalledWith(cc(SUSTAIN));
+  });
+
+  it("detaches from every input when stopped", () => {
+    const pad = new FakeMidiInput("pad");
+    const { access, onTrigger, stop } = setup(pad);
+    stop();
+    expect(access.onstatechange).toBeNull();
+    expect(pad.onmidimessage).toBeNull();
+
+    const late = new FakeMidiInput("late");
+    access.plugIn(late);
+    late.send(NOTE_ON, 38, 100);
+    expect(onTrigger).not.toHaveBeenCalled();
+  });
+});
+
+describe("learning a trigger", () => {
+  // What MidiPanel does with incoming triggers: the first one while learning binds, later ones run commands
+  const listenWithLearn = (access: MidiAccessLike, learnCommand: CommandId) => {
+    const state = { bindings: [] as MidiBinding[], isLearning: true, commands: [] as CommandId[] };
+    listenToMidi(access, (trigger) => {
+      if (state.isLearning) {
+        state.bindings = bindTrigger(state.bindings, trigger, learnCommand);
+        state.isLearning = false;
+        return;
+      }
+      const command = findMidiCommand(state.bindings, trigger);
+      if (command) state.commands.push(command);
+    });
+    return state;
+  };
+
+  it("binds the next trigger to the command and runs it from then on", () => {
+    const pedal = new FakeMidiInput("pedal");
+    const access = new FakeMidiAccess();
+    access.plugIn(pedal);
+    const state = listenWithLearn(access, "playPause");
+
+    pedal.send(CC, SUSTAIN, 127);
+    expect(state.bindings).toEqual([{ trigger: cc(SUSTAIN), command: "playPause" }]);
+    expect(state.commands).toEqual([]);
+
+    pedal.send(CC, SUSTAIN, 0);
+    pedal.send(CC, SUSTAIN, 127);
+    expect(state.commands).toEqual(["playPause"]);
+  });
+
+  it("replaces the trigger's old binding", () => {
+    const bindings = bindTrigger(
+      [{ trigger: note(38), command: "playPause" }, { trigger: note(40), command: "toggleLoop" }],
+      note(38),
+      "restartLoop"
+    );
+    expect(bindings).toEqual([
+      { trigger: note(40), command: "toggleLoop" },
+      { trigger: note(38), command: "restartLoop" },
+    ]);
+    expect(findMidiCommand(bindings, note(38))).toBe("restartLoop");
+    expect(findMidiCommand(bindings, note(38, 2))).toBeUndefined();
+  });
+});
+
+describe("parseMidiMessage", () => {
+  it("starts a controller from up, so the first press fires", () => {
+    const ccValues = new Map<string, number>();
+    expect(parseMidiMessage(new Uint8Array([CC, SUSTAIN, 64]), ccValues)).toEqual(cc(SUSTAIN));
+    expect(parseMidiMessage(new Uint8Array([CC, SUSTAIN, 63]), ccValues)).toBeNull();
+  });
+});
+
+describe("formatTrigger", () => {
+  it("names notes with their octave and controllers by number", () => {
+    expect(formatTrigger(note(60))).toBe("C4 (60) · ch 1");
+    expect(formatTrigger(note(38, 10))).toBe("D2 (38) · ch 10");
+    expect(formatTrigger(cc(SUSTAIN))).toBe("CC 64 · ch 1");
+  });
+});
@@ -0,0 +1,126 @@
+// Web MIDI input: turns note-on / CC messages from pads and foot pedals into
+// Workspace commands. Only a small slice of the Web MIDI API is used, typed
+// below so tests can pass a fake MIDIAccess instead of a real one.
+
+import type { CommandId } from "./commands";
+import { loadAppSettings, saveAppSettings } from "./storage";
+
+export interface MidiTrigger {
+  type: "note" | "cc";
+  channel: number; // 1-16
+  number: number; // Note or controller number
+}
+
+export interface MidiBinding {
+  trigger: MidiTrigger;
+  command: CommandId;
+}
+
+export interface MidiMessageLike {
+  data: Uint8Array | null;
+}
+
+export interface MidiInputLike {
+  id: string;
+  name?: string | null;
+  onmidimessage: ((event: MidiMessageLike) => void) | null;
+}
+
+export interface MidiAccessLike {
+  inputs: { forEach: (callback: (input: MidiInputLike) => void) => void };
+  onstatechange: ((event: unknown) => void) | null;
+}
+
+// Pedals send a CC on press and release; values at or above this count as "down"
+const CC_ON_THRESHOLD = 64;
+
+const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+
+export const loadMidiBindings = (): MidiBinding[] => loadAppSettings().midi ?? [];
+
+export const saveMidiBindings = (bindings: MidiBinding[]) => {
+  saveAppSettings({ midi: bindings });
+};
+
+export const isSameTrigger = (a: MidiTrigger, b: MidiTrigger) =>
+  a.type === b.type && a.channel === b.channel && a.number === b.number;
+
+export const findMidiCommand = (bindings: MidiBinding[], trigger: MidiTrigger) =>
+  bindings.find((binding) => isSameTrigger(binding.trigger, trigger))?.command;
+
+// Each trigger drives one command, so learning a trigger replaces its old binding
+export const bindTrigger = (bindings: MidiBinding[], trigger: MidiTrigger, command: CommandId): MidiBinding[] => [
+  ...bindings.filter((binding) => !isSameTrigger(binding.trigger, trigger)),
+  { trigger, command },
+];
+
+export const formatTrigger = (trigger: MidiTrigger) => {
+  const name = trigger.type === "note"
+    ? `${NOTE_NAMES[trigger.number % 12]}${Math.floor(trigger.number / 12) - 1} (${trigger.number})`
+    : `CC ${trigger.number}`;
+  return `${name} · ch ${trigger.channel}`;
+};
+
+// Decodes a raw message; `ccValues` remembers controller positions so a
+// pedal only fires when it goes down, not on release or while held.
+export const parseMidiMessage = (data: Uint8Array, ccValues: Map<string, number>): MidiTrigger | null => {
+  if (data.length < 3) return null;
+  const status = data[0] & 0xf0;
+  const channel = (data[0] & 0x0f) + 1;
+  const [, number, value] = data;
+
+  if (status === 0x90 && value > 0) {
+    return { type: "note", channel, number };
+  }
+
+  if (status === 0xb0) {
+    const key = `${channel}:${number}`;
+    const previous = ccValues.get(key) ?? 0;
+    ccValues.set(key, value);
+    if (value >= CC_ON_THRESHOLD && previous < CC_ON_THRESHOLD) {
+      return { type: "cc", channel, number };
+    }
+  }
+
+  return null;
+};
+
+// Listen on every connected input, including ones plugged in later.
+// Returns a function that detaches all listeners.
+export const listenToMidi = (access: MidiAccessLike, onTrigger: (trigger: MidiTrigger) => void) => {
+  const ccValues = new Map<string, number>();
+
+  const attach = () => {
+    access.inputs.forEach((input) => {
+      input.onmidimessage = (event) => {
+        if (!event.data) return;
+        const trigger = parseMidiMessage(event.data, ccValues);
+        if (trigger) onTrigger(trigger);
+      };
+    });
+  };
+
+  attach();
+  access.onstatechange = attach;
+
+  return () => {
+    access.onstatechange = null;
+    access.inputs.forEach((input) => {
+      input.onmidimessage = null;
+    });
+  };
+};
+
+export const countMidiInputs = (access: MidiAccessLike) => {
+  let count = 0;
+  access.inputs.forEach(() => count++);
+  return count;
+};
+
+export const isMidiSupported = () =>
+  typeof navigator !== "undefined" && typeof navigator.requestMIDIAccess === "function";
+
+export const requestMidiAccess = async (): Promise<MidiAccessLike> => {
+  if (!isMidiSupported()) throw new Error("This browser doesn't support Web MIDI");
+  return (await navigator.requestMIDIAccess()) as unknown as MidiAccessLike;
+};
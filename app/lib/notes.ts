@@ -0,0 +1,27 @@
+// Practice notes pinned to a moment (or a range) of a video. Saved per video.
+
+import { loadVideoData, saveVideoData } from "./storage";
+
+export interface PracticeNote {
+  id: string;
+  text: string;
+  time: number;
+  end?: number; // Set when the note covers a range rather than a moment
+}
+
+export const loadNotes = (videoId: string): PracticeNote[] => {
+  return loadVideoData(videoId, "notes") ?? [];
+};
+
+export const saveNotes = (videoId: string, notes: PracticeNote[]) => {
+  saveVideoData(videoId, "notes", notes.length > 0 ? notes : undefined);
+};
+
+// Kept in timeline order, so the list reads like the song
+export const sortNotes = (notes: PracticeNote[]) => [...notes].sort((a, b) => a.time - b.time);
+
+// The note the playhead is on: inside a range note, or within `window` seconds after a moment note
+export const noteAt = (notes: PracticeNote[], time: number, window = 2): PracticeNote | null => {
+  const matches = notes.filter((n) => time >= n.time && time <= (n.end ?? n.time + window));
+  return matches[matches.length - 1] ?? null;
+};
@@ -0,0 +1,32 @@
+// Offline support: the service worker in public/sw.js and the browser's
+// online/offline state.
+
+export const registerServiceWorker = () => {
+  // The dev server rebuilds constantly; a cached shell would only get in the way
+  if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+  navigator.serviceWorker.register("/sw.js").catch(() => {});
+  navigator.serviceWorker.ready.then((registration) => {
+    // Hand over the build files this page already loaded, so the first visit works offline too
+    const urls = performance
+      .getEntriesByType("resource")
+      .map((entry) => entry.name)
+      .filter((name) => {
+        const url = new URL(name);
+        return url.origin === location.origin && url.pathname.startsWith("/_next/static/");
+      });
+    registration.active?.postMessage({ type: "cache-urls", urls });
+  });
+};
+
+// For useSyncExternalStore
+export const subscribeOnline = (listener: () => void) => {
+  window.addEventListener("online", listener);
+  window.addEventListener("offline", listener);
+  return () => {
+    window.removeEventListener("online", listener);
+    window.removeEventListener("offline", listener);
+  };
+};
+
+export const isOnline = () => navigator.onLine;
@@ -0,0 +1,78 @@
+// Where the media is right now, between polls. Players only report their
+// position every so often (the YouTube iframe has to be asked); in between, the
+// clock runs on from the last report at the playback rate. Reports are trusted
+// again once they agree with a pending seek, so a late answer from before the
+// seek can't pull the playhead back.
+
+// A report this far from the prediction is a jump (seek, stall), not jitter
+const RESYNC_THRESHOLD = 0.25;
+// Stop waiting for the player to catch up with a seek after this long (ms)
+const SEEK_TIMEOUT = 1000;
+
+export class PlaybackClock {
+  private time = 0; // Media seconds at `at`
+  private at = 0; // ms on the `now` clock
+  private rate = 1;
+  private playing = false;
+  private pendingSeek: { time: number; at: number } | null = null;
+  // Highest time handed out since the last jump, so small corrections never step backwards
+  private shown = 0;
+
+  constructor(private now: () => number = () => performance.now()) {}
+
+  getTime = (): number => {
+    const elapsed = this.playing ? ((this.now() - this.at) / 1000) * this.rate : 0;
+    this.shown = Math.max(this.shown, this.time + elapsed);
+    return this.shown;
+  };
+
+  // A position reported by the player. Returns false if it was ignored as stale.
+  sync(reported: number): boolean {
+    const at = this.now();
+    if (this.pendingSeek) {
+      const catchingUp = Math.abs(reported - this.pendingSeek.time) > RESYNC_THRESHOLD;
+      if (catchingUp && at - this.pendingSeek.at < SEEK_TIMEOUT) return false;
+      this.pendingSeek = null;
+    }
+
+    const predicted = this.getTime();
+    if (!this.playing || Math.abs(reported - predicted) > RESYNC_THRESHOLD) {
+      this.jump(reported, at);
+    } else {
+      // Jitter: take the report, but let getTime() hold still rather than go backwards
+      this.time = reported;
+      this.at = at;
+    }
+    return true;
+  }
+
+  seek(time: number) {
+    const at = this.now();
+    this.jump(time, at);
+    this.pendingSeek = { time, at };
+  }
+
+  setPlaying(playing: boolean) {
+    if (playing === this.playing) return;
+    this.time = this.getTime();
+    this.at = this.now();
+    this.playing = playing;
+  }
+
+  setRate(rate: number) {
+    if (rate === this.rate) return;
+    this.time = this.getTime();
+    this.at = this.now();
+    this.rate = rate;
+  }
+
+  getRate() {
+    return this.rate;
+  }
+
+  private jump(time: number, at: number) {
+    this.time = time;
+    this.at = at;
+    this.shown = time;
+  }
+}
@@ -0,0 +1,34 @@
+// The player interface Workspace talks to. Each backend (YouTube iframe, local
+// media file) is a component exposing a PlayerHandle through its ref.
+
+export type PlayerSource =
+  | { type: "youtube"; videoId: string }
+  | { type: "file"; file: File };
+
+export interface PlayerReadyInfo {
+  duration: number;
+  title: string;
+}
+
+export interface PlayerProps {
+  playbackRate: number;
+  onReady?: (info: PlayerReadyInfo) => void;
+  onPlayingChange?: (isPlaying: boolean) => void;
+  onProgress?: (currentTime: number) => void;
+  onEnded?: () => void;
+}
+
+export interface PlayerHandle {
+  play: () => void;
+  pause: () => void;
+  seekTo: (seconds: number) => void;
+  setVolume: (volume: number) => void; // 0-100
+  getCurrentTime: () => Promise<number>;
+}
+
+export const LOCAL_FILE_TYPES = "audio/*,video/*,.mp3,.wav,.mp4";
+
+// Key for everything we save per video. Files can't be reopened from storage,
+// but name + size is stable enough to find their sections again.
+export const getSourceId = (source: PlayerSource) =>
+  source.type === "youtube" ? source.videoId : `file:${source.file.name}:${source.file.size}`;
@@ -0,0 +1,384 @@
+import { describe, expect, it, vi } from "vitest";
+import { FakePlayer } from "./fakePlayer";
+import { PracticeSession, PracticeState, SessionMetronome } from "./practiceSession";
+import type { CommandId } from "./commands";
+import type { CountInOptions } from "./countIn";
+import type { Routine } from "./routines";
+
+const DURATION = 60;
+const FRAME = 1 / 60;
+
+const fakeMetronome = () => {
+  const countIns: { options: CountInOptions; resolve: (completed: boolean) => void }[] = [];
+  const metronome = {
+    togglePlaying: vi.fn(),
+    tap: vi.fn(),
+    setBpm: vi.fn(),
+    countIn: vi.fn((options: CountInOptions) => new Promise<boolean>((resolve) => countIns.push({ options, resolve }))),
+    cancelCountIn: vi.fn(() => countIns.at(-1)?.resolve(false)),
+  } satisfies SessionMetronome;
+  return { metronome, countIns };
+};
+
+// A session wired to a FakePlayer the way Workspace wires it to the real players
+const setup = (initialState: Partial<PracticeState> = {}) => {
+  const player = new FakePlayer({ duration: DURATION });
+  const { metronome, countIns } = fakeMetronome();
+  const session = new PracticeSession({
+    player: { current: player },
+    metronome: { current: metronome },
+    initialState: { duration: DURATION, ...initialState },
+    now: player.now,
+  });
+  player.connect({
+    onPlayingChange: session.handlePlayingChange,
+    onProgress: session.handleProgress,
+    onEnded: session.handleEnded,
+    onFrame: session.tick,
+  });
+  player.playbackRate = session.getState().playbackRate;
+  session.subscribe(() => (player.playbackRate = session.getState().playbackRate));
+  return { player, metronome, countIns, session };
+};
+
+const seeks = (player: FakePlayer) => player.calls.filter((c) => c.method === "seekTo").map((c) => c.seconds);
+
+// Let a resolved count-in run on to the downbeat
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("loop wrap", () => {
+  it("seeks back to the loop start just ahead of the loop end", () => {
+    const { player, session } = setup({ isLooping: true, loopStart: 2, loopEnd: 4 });
+    const wrapsAt: number[] = [];
+    session.on((event) => {
+      if (event.type === "wrap") wrapsAt.push(player.currentTime);
+    });
+
+    session.seek(2);
+    session.play();
+    player.advance(1.99);
+
+    expect(wrapsAt).toHaveLength(1);
+    // Early by the seek latency (0.04s), on whichever frame lands within half a frame of that
+    expect(wrapsAt[0]).toBeGreaterThanOrEqual(4 - 0.04 - FRAME / 2);
+    expect(wrapsAt[0]).toBeLessThan(4 - 0.04 + FRAME / 2);
+    expect(seeks(player)).toEqual([2, 2]);
+    expect(player.currentTime).toBeLessThan(2.1);
+  });
+
+  it("looks ahead in real time, so a faster loop wraps further from its end", () => {
+    const { player, session } = setup({ isLooping: true, loopStart: 2, loopEnd: 4, playbackRate: 2 });
+    const wrapsAt: number[] = [];
+    session.on((event) => {
+      if (event.type === "wrap") wrapsAt.push(player.currentTime);
+    });
+
+    session.seek(2);
+    session.play();
+    player.advance(0.99);
+
+    expect(wrapsAt).toHaveLength(1);
+    expect(wrapsAt[0]).toBeGreaterThanOrEqual(4 - 2 * (0.04 + FRAME / 2));
+    expect(wrapsAt[0]).toBeLessThan(4 - 2 * (0.04 - FRAME / 2));
+  });
+
+  it("counts one wrap per pass", () => {
+    const { player, session } = setup({ isLooping: true, loopStart: 0, loopEnd: 1 });
+    const wrap = vi.fn();
+    session.on((event) => {
+      if (event.type === "wrap") wrap();
+    });
+
+    session.play();
+    player.advance(3.5);
+
+    expect(wrap).toHaveBeenCalledTimes(3);
+    expect(seeks(player)).toEqual([0, 0, 0]);
+  });
+
+  it("plays on past the loop end while looping is off", () => {
+    const { player, session } = setup({ isLooping: false, loopStart: 0, loopEnd: 1 });
+    session.play();
+    player.advance(2);
+
+    expect(seeks(player)).toEqual([]);
+    expect(session.getTime()).toBeCloseTo(2, 1);
+  });
+});
+
+describe("seek", () => {
+  it("moves the player, the position and the clock", () => {
+    const { player, session } = setup();
+    session.seek(10);
+
+    expect(player.calls).toEqual([{ method: "seekTo", seconds: 10 }]);
+    expect(session.position.getTime()).toBe(10);
+    expect(session.getTime()).toBe(10);
+
+    session.play();
+    player.advance(0.5);
+    expect(session.getTime()).toBeCloseTo(10.5, 1);
+    expect(session.position.getTime()).toBeCloseTo(10.5, 1);
+  });
+
+  it("ignores a stale report from before the seek", () => {
+    const { player, session } = setup();
+    session.play();
+    player.advance(1);
+    session.seek(30);
+
+    session.handleProgress(1.1);
+    expect(session.getTime()).toBe(30);
+    expect(session.position.getTime()).toBe(30);
+  });
+
+  it("tells position subscribers about each report", () => {
+    const { player, session } = setup();
+    const listener = vi.fn();
+    session.position.subscribe(listener);
+
+    session.play();
+    player.advance(0.5);
+    expect(listener).toHaveBeenCalledTimes(5);
+  });
+});
+
+describe("playback rate", () => {
+  it("runs the clock at the new rate", () => {
+    const { player, session } = setup();
+    session.play();
+    player.advance(1);
+    session.setPlaybackRate(1.5);
+    player.advance(1);
+
+    expect(session.getState().playbackRate).toBe(1.5);
+    expect(player.playbackRate).toBe(1.5);
+    expect(session.getTime()).toBeCloseTo(2.5, 1);
+  });
+
+  it("takes over from the speed trainer", () => {
+    const { session } = setup();
+    session.startTrainer();
+    session.setPlaybackRate(0.9);
+
+    expect(session.getState().trainer).toBeNull();
+    expect(session.getState().playbackRate).toBe(0.9);
+  });
+});
+
+describe("speed trainer", () => {
+  const trainerSettings = { startRate: 0.5, targetRate: 0.6, step: 0.05, repsPerStep: 2 };
+
+  it("starts at the start rate, looping from the loop start", () => {
+    const { player, session } = setup({ loopStart: 3, loopEnd: 4, trainerSettings });
+    session.startTrainer();
+
+    const state = session.getState();
+    expect(state.isLooping).toBe(true);
+    expect(state.playbackRate).toBe(0.5);
+    expect(state.trainer).toMatchObject({ rate: 0.5, cleanReps: 0, totalReps: 0 });
+    expect(seeks(player)).toEqual([3]);
+  });
+
+  it("speeds up after each run of clean reps until the target", () => {
+    const { player, session } = setup({ loopStart: 0, loopEnd: 1, trainerSettings });
+    session.startTrainer();
+    session.play();
+
+    player.advance(4.1); // Two passes of 2s at 0.5x
+    expect(session.getState().trainer).toMatchObject({ rate: 0.55, totalReps: 2, cleanReps: 0 });
+    expect(player.playbackRate).toBe(0.55);
+
+    player.advance(3.7); // Two more at 0.55x
+    expect(session.getState().trainer).toMatchObject({ rate: 0.6, totalReps: 4, finished: true });
+    expect(session.getState().playbackRate).toBe(0.6);
+  });
+
+  it("doesn't count a missed pass", () => {
+    const { player, session } = setup({ loopStart: 0, loopEnd: 1, trainerSettings });
+    session.startTrainer();
+    session.play();
+
+    player.advance(2.05);
+    session.missTrainerRep();
+    player.advance(2);
+
+    expect(session.getState().trainer).toMatchObject({ rate: 0.5, totalReps: 2, cleanReps: 0 });
+  });
+});
+
+describe("routines", () => {
+  const routine: Routine = {
+    id: "r1",
+    name: "Fill",
+    steps: [
+      { id: "s1", name: "Full speed", start: 0, end: 1, reps: 2, rate: 1 },
+      { id: "s2", name: "Half speed", start: 5, end: 6, reps: 1, rate: 0.5, bpm: 90 },
+    ],
+  };
+
+  it("applies the first step on start", () => {
+    const { player, session } = setup();
+    session.startRoutine(routine);
+
+    const state = session.getState();
+    expect(state).toMatchObject({ loopStart: 0, loopEnd: 1, playbackRate: 1, isLooping: true });
+    expect(state.routineRun?.progress).toEqual({ stepIndex: 0, rep: 1, finished: false });
+    expect(seeks(player)).toEqual([0]);
+  });
+
+  it("moves to the next step once its reps are played", () => {
+    const { player, metronome, session } = setup();
+    const steps: string[] = [];
+    session.on((event) => {
+      if (event.type === "routineStep") steps.push(event.step.id);
+    });
+
+    session.startRoutine(routine);
+    session.play();
+
+    player.advance(1.05);
+    expect(session.getState().routineRun?.progress).toEqual({ stepIndex: 0, rep: 2, finished: false });
+
+    player.advance(1);
+    const state = session.getState();
+    expect(state.routineRun?.progress).toEqual({ stepIndex: 1, rep: 1, finished: false });
+    expect(state).toMatchObject({ loopStart: 5, loopEnd: 6, playbackRate: 0.5, bpm: 90 });
+    expect(metronome.setBpm).toHaveBeenCalledWith(90);
+    expect(steps).toEqual(["s1", "s2"]);
+    expect(seeks(player)).toEqual([0, 0, 5]);
+  });
+
+  it("stops at the top of the last step when it's done", () => {
+    const { player, session } = setup();
+    session.startRoutine(routine);
+    session.play();
+
+    player.advance(2.05);
+    player.advance(2.05); // One pass of the second step at 0.5x
+
+    expect(session.getState().routineRun?.progress.finished).toBe(true);
+    expect(session.getState().isPlaying).toBe(false);
+    expect(player.calls.at(-2)).toEqual({ method: "pause" });
+    expect(player.calls.at(-1)).toEqual({ method: "seekTo", seconds: 5 });
+  });
+});
+
+describe("count-in", () => {
+  const countIn = { enabled: true, bars: 1, restSeconds: 0.5 };
+
+  it("pauses at the loop start and comes back in on the downbeat", async () => {
+    const { player, countIns, session } = setup({ isLooping: true, loopStart: 2, loopEnd: 3, playbackRate: 0.5, bpm: 100 });
+    session.configure({ countIn, countInTempo: () => ({ bpm: 120, beatsPerBar: 3 }) });
+    session.seek(2);
+    session.play();
+    player.advance(2.05);
+
+    expect(session.getState().isCountingIn).toBe(true);
+    expect(session.getState().isPlaying).toBe(false);
+    // Clicked at the section's tempo scaled to the playback rate
+    expect(countIns).toHaveLength(1);
+    expect(countIns[0].options).toEqual({ bpm: 60, beatsPerBar: 3, bars: 1, delay: 0.5 });
+    expect(player.calls.slice(-2)).toEqual([{ method: "pause" }, { method: "seekTo", seconds: 2 }]);
+
+    // Nothing moves while the clicks play
+    player.advance(2);
+    expect(player.currentTime).toBe(2);
+
+    countIns[0].resolve(true);
+    await flush();
+
+    expect(session.getState().isCountingIn).toBe(false);
+    expect(session.getState().isPlaying).toBe(true);
+    expect(player.calls.slice(-2)).toEqual([{ method: "seekTo", seconds: 2 }, { method: "play" }]);
+  });
+
+  it("puts the playhead back on the loop start as the count-in ends", async () => {
+    const { player, countIns, session } = setup({ isLooping: true, loopStart: 2, loopEnd: 3 });
+    session.configure({ countIn });
+    session.seek(2);
+    session.play();
+    player.advance(1.05);
+    expect(countIns).toHaveLength(1);
+
+    // A late report from before the wrap, arriving once the seek has stopped being waited on
+    player.advance(1.5);
+    session.handleProgress(2.98);
+    expect(session.getTime()).toBe(2.98);
+
+    countIns[0].resolve(true);
+    await flush();
+
+    expect(session.getTime()).toBe(2);
+    expect(session.position.getTime()).toBe(2);
+  });
+
+  it("stays paused when the count-in is cancelled", async () => {
+    const { player, metronome, countIns, session } = setup({ isLooping: true, loopStart: 0, loopEnd: 1 });
+    session.configure({ countIn });
+    session.play();
+    player.advance(1);
+    expect(countIns).toHaveLength(1);
+
+    session.togglePlayPause();
+    await flush();
+
+    expect(metronome.cancelCountIn).toHaveBeenCalled();
+    expect(session.getState().isCountingIn).toBe(false);
+    expect(session.getState().isPlaying).toBe(false);
+    expect(player.calls.at(-1)).toEqual({ method: "seekTo", seconds: 0 });
+  });
+});
+
+describe("runCommand", () => {
+  // From a paused playhead at 10s, a 2-20s loop that isn't looping, 1x and the default steps
+  const initial = { loopStart: 2, loopEnd: 20, isLooping: false, playbackRate: 1 };
+
+  const expected: Record<CommandId, { calls?: FakePlayer["calls"]; state?: Partial<PracticeState>; metronome?: keyof SessionMetronome }> = {
+    playPause: { calls: [{ method: "play" }], state: { isPlaying: true } },
+    restartLoop: { calls: [{ method: "seekTo", seconds: 0 }] },
+    toggleLoop: { state: { isLooping: true } },
+    seekBack: { calls: [{ method: "seekTo", seconds: 5 }] },
+    seekForward: { calls: [{ method: "seekTo", seconds: 15 }] },
+    seekBackLarge: { calls: [{ method: "seekTo", seconds: 0 }] },
+    seekForwardLarge: { calls: [{ method: "seekTo", seconds: 25 }] },
+    setLoopIn: { state: { loopStart: 10 } },
+    setLoopOut: { state: { loopEnd: 10 } },
+    nudgeInEarlier: { state: { loopStart: 1.9 } },
+    nudgeInLater: { state: { loopStart: 2.1 } },
+    nudgeOutEarlier: { state: { loopEnd: 19.9 } },
+    nudgeOutLater: { state: { loopEnd: 20.1 } },
+    speedDown: { state: { playbackRate: 0.95 } },
+    speedUp: { state: { playbackRate: 1.05 } },
+    toggleMetronome: { metronome: "togglePlaying" },
+    tapTempo: { metronome: "tap" },
+  };
+
+  it.each(Object.entries(expected) as [CommandId, (typeof expected)[CommandId]][])("%s", (id, { calls = [], state = {}, metronome: method }) => {
+    const { player, metronome, session } = setup(initial);
+    session.seek(10);
+    player.calls = [];
+
+    session.runCommand(id);
+
+    expect(player.calls).toEqual(calls);
+    for (const [key, value] of Object.entries(state)) {
+      expect(session.getState()[key as keyof PracticeState]).toBeCloseTo(value as number);
+    }
+    if (method) expect(metronome[method]).toHaveBeenCalledTimes(1);
+  });
+
+  it("restarts from the loop start while looping", () => {
+    const { player, session } = setup({ ...initial, isLooping: true });
+    session.seek(10);
+    session.runCommand("restartLoop");
+    expect(seeks(player)).toEqual([10, 2]);
+  });
+
+  it("keeps the loop at least the minimum length", () => {
+    const { session } = setup({ loopStart: 2, loopEnd: 2.2 });
+    session.seek(10);
+    session.runCommand("setLoopIn");
+    expect(session.getState().loopStart).toBeLessThan(2.2);
+  });
+});
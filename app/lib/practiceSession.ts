@@ -0,0 +1,462 @@
+// The practice session engine: loop wrapping, seeking, speed, the speed trainer,
+// routines, count-ins and commands, independent of React. It drives a player and
+// a metronome through small interfaces and is fed the player's callbacks, so it
+// can run against FakePlayer on a simulated clock as well as the real backends.
+// Workspace renders its state through subscribe/getState.
+//
+// The playhead isn't part of the state, so a progress report every 100 ms doesn't
+// re-render everything that subscribes to it. Readouts that follow the reports
+// use `position`; anything smoother reads getTime() from the interpolating
+// PlaybackClock, and tick() (called every animation frame) wraps the loop on
+// time rather than on the first report past its end.
+
+import type { PlayerHandle } from "./player";
+import type { CommandId, ShortcutSettings } from "./commands";
+import { CountInOptions, CountInSettings, DEFAULT_COUNT_IN } from "./countIn";
+import { MIN_LOOP_LENGTH } from "./time";
+import { PlaybackClock } from "./playbackClock";
+import { Routine, RoutineProgress, RoutineStep, startRoutine, advanceRoutine, currentStep } from "./routines";
+import {
+  SpeedTrainerSettings,
+  SpeedTrainerState,
+  DEFAULT_TRAINER_SETTINGS,
+  startTrainer,
+  completeRep,
+  missRep,
+} from "./speedTrainer";
+
+export type SessionPlayer = Pick<PlayerHandle, "play" | "pause" | "seekTo">;
+
+export interface SessionMetronome {
+  togglePlaying: () => void;
+  tap: () => void;
+  setBpm: (bpm: number) => void;
+  // Resolves on the downbeat after the count-in, or with false if it was cancelled
+  countIn: (options: CountInOptions) => Promise<boolean>;
+  cancelCountIn: () => void;
+}
+
+export interface RoutineRun {
+  routine: Routine;
+  progress: RoutineProgress;
+}
+
+export interface PracticeState {
+  isPlaying: boolean;
+  isCountingIn: boolean;
+  duration: number;
+  playbackRate: number;
+  isLooping: boolean;
+  loopStart: number;
+  loopEnd: number;
+  bpm: number; // The metronome's tempo
+  trainerSettings: SpeedTrainerSettings;
+  trainer: SpeedTrainerState | null;
+  routineRun: RoutineRun | null;
+}
+
+export type PracticeEvent =
+  | { type: "wrap"; start: number; rate: number } // The loop went back to its start
+  | { type: "routineStep"; step: RoutineStep }
+  | { type: "songEnd" }; // Reached the setlist song's end point, or the end of the media
+
+// Everything the engine reads but doesn't own, refreshed by whoever hosts it
+export interface PracticeConfig {
+  shortcuts: Pick<ShortcutSettings, "seekStep" | "largeSeekStep" | "nudgeStep">;
+  countIn: CountInSettings;
+  // Tempo the count-in clicks at for a loop starting at `start`
+  countInTempo: (start: number, bpm: number) => { bpm: number; beatsPerBar: number };
+  snap: (time: number) => number; // Where "set IN/OUT at playhead" lands
+  songEnd?: number; // Setlist end point, ignored while looping
+}
+
+// The playhead as of the last progress report or seek, shaped for useSyncExternalStore
+export interface PlaybackPosition {
+  subscribe: (listener: () => void) => () => void;
+  getTime: () => number;
+}
+
+// Same shape as a React ref, which is only filled in once the component has mounted
+export interface Holder<T> {
+  current: T | null;
+}
+
+export interface PracticeSessionOptions {
+  player: Holder<SessionPlayer>;
+  metronome?: Holder<SessionMetronome>;
+  initialState?: Partial<PracticeState>;
+  now?: () => number; // ms, performance.now() unless simulated
+}
+
+export const DEFAULT_PRACTICE_STATE: PracticeState = {
+  isPlaying: false,
+  isCountingIn: false,
+  duration: 0,
+  playbackRate: 1,
+  isLooping: false,
+  loopStart: 0,
+  loopEnd: 10,
+  bpm: 120,
+  trainerSettings: DEFAULT_TRAINER_SETTINGS,
+  trainer: null,
+  routineRun: null,
+};
+
+const DEFAULT_CONFIG: PracticeConfig = {
+  shortcuts: { seekStep: 5, largeSeekStep: 15, nudgeStep: 0.1 },
+  countIn: DEFAULT_COUNT_IN,
+  countInTempo: (_start, bpm) => ({ bpm, beatsPerBar: 4 }),
+  snap: (time) => time,
+};
+
+// Seconds between asking the player to seek and it playing from there; the loop wraps this early
+const SEEK_LATENCY = 0.04;
+const FRAME = 1 / 60;
+
+const clampRate = (rate: number) => Math.round(Math.min(2, Math.max(0.25, rate)) * 100) / 100;
+
+export class PracticeSession {
+  private state: PracticeState;
+  private config = DEFAULT_CONFIG;
+  private playerHolder: Holder<SessionPlayer>;
+  private metronomeHolder: Holder<SessionMetronome>;
+  private clock: PlaybackClock;
+  private listeners = new Set<() => void>();
+  private eventListeners = new Set<(event: PracticeEvent) => void>();
+  private reportedTime = 0;
+  private positionListeners = new Set<() => void>();
+  // Set when we issue a wrap-seek, cleared once the playhead is back inside the loop.
+  // Stops a slow seek from being counted as several repetitions.
+  private wrapping = false;
+  // The song's end point is handled once, not on every later tick
+  private songEnded = false;
+
+  constructor({ player, metronome = { current: null }, initialState, now }: PracticeSessionOptions) {
+    this.playerHolder = player;
+    this.metronomeHolder = metronome;
+    this.state = { ...DEFAULT_PRACTICE_STATE, ...initialState };
+    this.clock = new PlaybackClock(now);
+    this.clock.setRate(this.state.playbackRate);
+  }
+
+  // --- Store ---
+  // Arrow properties so they can be handed to useSyncExternalStore as they are
+
+  getState = (): PracticeState => this.state;
+
+  // The playhead between progress reports
+  getTime = (): number => this.clock.getTime();
+
+  readonly position: PlaybackPosition = {
+    subscribe: (listener) => {
+      this.positionListeners.add(listener);
+      return () => {
+        this.positionListeners.delete(listener);
+      };
+    },
+    getTime: () => this.reportedTime,
+  };
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  on = (listener: (event: PracticeEvent) => void) => {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  };
+
+  configure(config: Partial<PracticeConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  private player() {
+    return this.playerHolder.current;
+  }
+
+  private metronome() {
+    return this.metronomeHolder.current;
+  }
+
+  private update(changes: Partial<PracticeState>) {
+    this.state = { ...this.state, ...changes };
+    if (changes.playbackRate !== undefined) this.clock.setRate(changes.playbackRate);
+    if (changes.isPlaying !== undefined) this.clock.setPlaying(changes.isPlaying);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private setPosition(time: number) {
+    this.reportedTime = time;
+    this.positionListeners.forEach((listener) => listener());
+  }
+
+  private emit(event: PracticeEvent) {
+    this.eventListeners.forEach((listener) => listener(event));
+  }
+
+  // --- Player callbacks ---
+  // Also arrow properties, so they can be passed straight to the player as props
+
+  handleReady = (duration: number) => {
+    this.update({ duration, isPlaying: true }); // Both backends auto-play
+  };
+
+  handlePlayingChange = (isPlaying: boolean) => {
+    this.update({ isPlaying });
+  };
+
+  handleEnded = () => {
+    this.emit({ type: "songEnd" });
+  };
+
+  handleProgress = (reported: number) => {
+    if (!this.clock.sync(reported)) return; // From before a seek that hasn't landed yet
+    const time = this.clock.getTime();
+    this.setPosition(time);
+    const { isLooping, loopEnd } = this.state;
+
+    if (isLooping && time >= loopEnd) {
+      this.wrapLoop();
+    } else {
+      this.wrapping = false;
+    }
+
+    // Setlist: move on once the song's end point is passed (unless it's being looped)
+    const { songEnd } = this.config;
+    if (!isLooping && songEnd !== undefined && time >= songEnd) {
+      if (!this.songEnded) this.emit({ type: "songEnd" });
+      this.songEnded = true;
+    } else {
+      this.songEnded = false;
+    }
+  };
+
+  // Called every animation frame while playing. Wraps as soon as the seek would
+  // land within half a frame of the loop end, so the next bar doesn't bleed in.
+  tick = () => {
+    const { isPlaying, isLooping, loopEnd } = this.state;
+    if (!isPlaying || !isLooping || this.wrapping) return;
+    const remaining = (loopEnd - this.clock.getTime()) / this.clock.getRate(); // Real seconds
+    if (remaining <= SEEK_LATENCY + FRAME / 2) this.wrapLoop();
+  };
+
+  // --- Loop wrap ---
+
+  // Back to the loop start. Only the first call per pass counts as a repetition:
+  // `wrapping` stays set until a progress report shows the playhead back inside.
+  private wrapLoop() {
+    let start = this.state.loopStart;
+
+    if (!this.wrapping) {
+      let rate = this.state.playbackRate;
+      let bpm = this.state.bpm;
+      let stopped = false;
+      const { routineRun, trainer, trainerSettings } = this.state;
+
+      if (routineRun && !routineRun.progress.finished) {
+        const progress = advanceRoutine(routineRun.routine, routineRun.progress);
+        this.update({ routineRun: { ...routineRun, progress } });
+        const step = currentStep(routineRun.routine, progress);
+        if (!step) {
+          // Routine done: stop at the top of the last step
+          this.player()?.pause();
+          stopped = true;
+        } else if (progress.stepIndex !== routineRun.progress.stepIndex) {
+          this.applyRoutineStep(step);
+          start = step.start;
+          rate = step.rate;
+          bpm = step.bpm ?? bpm;
+        }
+      } else if (trainer) {
+        const next = completeRep(trainer, trainerSettings);
+        this.update({ trainer: next, playbackRate: next.rate });
+        rate = next.rate;
+      }
+
+      this.emit({ type: "wrap", start, rate });
+      if (this.config.countIn.enabled && !stopped) this.startCountIn(start, rate, bpm);
+    }
+
+    this.player()?.seekTo(start);
+    this.clock.seek(start);
+    this.wrapping = true;
+  }
+
+  // --- Transport ---
+
+  play() {
+    this.player()?.play();
+  }
+
+  pause() {
+    this.player()?.pause();
+  }
+
+  togglePlayPause() {
+    // Stopping during a count-in cancels it and stays paused
+    if (this.state.isCountingIn) {
+      this.metronome()?.cancelCountIn();
+      return;
+    }
+    if (this.state.isPlaying) this.pause();
+    else this.play();
+  }
+
+  seek(time: number) {
+    this.player()?.seekTo(time);
+    this.clock.seek(time);
+    this.setPosition(time);
+  }
+
+  // Pause at the loop start, click the count-in (scaled to the playback rate) and come back in on the downbeat
+  private async startCountIn(start: number, rate: number, bpm: number) {
+    const metronome = this.metronome();
+    if (!metronome) return;
+
+    const tempo = this.config.countInTempo(start, bpm);
+    this.player()?.pause();
+    this.update({ isCountingIn: true });
+    const completed = await metronome.countIn({
+      bpm: tempo.bpm * rate,
+      beatsPerBar: tempo.beatsPerBar,
+      bars: this.config.countIn.bars,
+      delay: this.config.countIn.restSeconds,
+    });
+    this.update({ isCountingIn: false });
+
+    if (completed) {
+      this.seek(start);
+      this.player()?.play();
+    }
+  }
+
+  // --- Loop ---
+
+  setLoop(start: number, end: number) {
+    this.update({ loopStart: start, loopEnd: end });
+  }
+
+  setLoopStart(time: number) {
+    this.update({ loopStart: Math.max(0, Math.min(time, this.state.loopEnd - MIN_LOOP_LENGTH)) });
+  }
+
+  setLoopEnd(time: number) {
+    this.update({ loopEnd: Math.min(this.state.duration, Math.max(time, this.state.loopStart + MIN_LOOP_LENGTH)) });
+  }
+
+  setLooping(isLooping: boolean) {
+    this.update({ isLooping });
+  }
+
+  toggleLoop() {
+    this.setLooping(!this.state.isLooping);
+  }
+
+  // Loop a range and jump to its start
+  selectLoop(start: number, end: number) {
+    this.update({ loopStart: start, loopEnd: end, isLooping: true });
+    this.seek(start);
+  }
+
+  // --- Speed & Tempo ---
+
+  // Picking a speed by hand takes over from the trainer
+  setPlaybackRate(rate: number) {
+    this.update({ playbackRate: rate, trainer: null });
+  }
+
+  setBpm(bpm: number) {
+    this.update({ bpm });
+  }
+
+  // --- Speed Trainer ---
+
+  setTrainerSettings(trainerSettings: SpeedTrainerSettings) {
+    this.update({ trainerSettings });
+  }
+
+  startTrainer() {
+    const trainer = startTrainer(this.state.trainerSettings);
+    this.update({ routineRun: null, trainer, playbackRate: trainer.rate, isLooping: true });
+    this.seek(this.state.loopStart);
+  }
+
+  stopTrainer() {
+    this.update({ trainer: null });
+  }
+
+  // The current pass wasn't clean
+  missTrainerRep() {
+    if (this.state.trainer) this.update({ trainer: missRep(this.state.trainer) });
+  }
+
+  // --- Routines ---
+
+  // Point the loop, speed and metronome at a routine step
+  private applyRoutineStep(step: RoutineStep) {
+    this.update({
+      loopStart: step.start,
+      loopEnd: step.end,
+      playbackRate: step.rate,
+      isLooping: true,
+      ...(step.bpm ? { bpm: step.bpm } : {}),
+    });
+    if (step.bpm) this.metronome()?.setBpm(step.bpm);
+    this.emit({ type: "routineStep", step });
+  }
+
+  startRoutine(routine: Routine) {
+    const progress = startRoutine(routine);
+    const step = currentStep(routine, progress);
+    if (!step) return;
+
+    // A routine sets its own speeds, so it replaces the trainer
+    this.update({ trainer: null, routineRun: { routine, progress } });
+    this.applyRoutineStep(step);
+    this.seek(step.start);
+  }
+
+  stopRoutine() {
+    this.update({ routineRun: null });
+  }
+
+  // Keeps a running routine in step with edits; stops it if it was deleted
+  updateRoutines(routines: Routine[]) {
+    const run = this.state.routineRun;
+    if (!run) return;
+    const routine = routines.find((r) => r.id === run.routine.id);
+    this.update({ routineRun: routine ? { ...run, routine } : null });
+  }
+
+  // --- Commands ---
+
+  runCommand(id: CommandId) {
+    const { seekStep, largeSeekStep, nudgeStep } = this.config.shortcuts;
+    const { isLooping, loopStart, loopEnd, playbackRate } = this.state;
+    const currentTime = this.clock.getTime();
+    switch (id) {
+      case "playPause": return this.togglePlayPause();
+      case "restartLoop": return this.seek(isLooping ? loopStart : 0);
+      case "toggleLoop": return this.toggleLoop();
+      case "seekBack": return this.seek(Math.max(0, currentTime - seekStep));
+      case "seekForward": return this.seek(currentTime + seekStep);
+      case "seekBackLarge": return this.seek(Math.max(0, currentTime - largeSeekStep));
+      case "seekForwardLarge": return this.seek(currentTime + largeSeekStep);
+      case "setLoopIn": return this.setLoopStart(this.config.snap(currentTime));
+      case "setLoopOut": return this.setLoopEnd(this.config.snap(currentTime));
+      case "nudgeInEarlier": return this.setLoopStart(loopStart - nudgeStep);
+      case "nudgeInLater": return this.setLoopStart(loopStart + nudgeStep);
+      case "nudgeOutEarlier": return this.setLoopEnd(loopEnd - nudgeStep);
+      case "nudgeOutLater": return this.setLoopEnd(loopEnd + nudgeStep);
+      case "speedDown": return this.setPlaybackRate(clampRate(playbackRate - 0.05));
+      case "speedUp": return this.setPlaybackRate(clampRate(playbackRate + 0.05));
+      case "toggleMetronome": return this.metronome()?.togglePlaying();
+      case "tapTempo": return this.metronome()?.tap();
+    }
+  }
+}
@@ -0,0 +1,198 @@
+// Microphone capture: recorded takes, live input for timing analysis, and
+// measuring how late the recording runs behind what the app plays (output +
+// input latency, recorder start-up).
+
+import { loadAppSettings, saveAppSettings } from "./storage";
+
+// Drums need the raw signal: the browser's voice processing would duck or
+// cancel the hits (and the calibration clicks coming back from the speakers)
+const MIC_CONSTRAINTS: MediaStreamConstraints = {
+  audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+};
+
+const CALIBRATION_CLICKS = 8;
+const CALIBRATION_INTERVAL = 0.5; // Seconds between clicks
+const CALIBRATION_LEAD = 0.5; // Silence before the first click
+// How far after a click we look for it in the recording
+const CALIBRATION_WINDOW = 0.4;
+
+export const isRecordingSupported = () =>
+  typeof navigator !== "undefined" && !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== "undefined";
+
+export const openMicrophone = async (): Promise<MediaStream> => {
+  if (!isRecordingSupported()) throw new Error("This browser can't record audio");
+  try {
+    return await navigator.mediaDevices.getUserMedia(MIC_CONSTRAINTS);
+  } catch (e) {
+    if (e instanceof DOMException && e.name === "NotAllowedError") {
+      throw new Error("Microphone access was blocked. Allow it in the browser's site settings");
+    }
+    if (e instanceof DOMException && e.name === "NotFoundError") throw new Error("No microphone found");
+    throw new Error("Couldn't open the microphone");
+  }
+};
+
+export const closeMicrophone = (stream: MediaStream) => stream.getTracks().forEach((track) => track.stop());
+
+// Milliseconds the recording runs late; takes are shifted back by this much on playback
+export const loadRecordingLatency = () => loadAppSettings().recordingLatency ?? 0;
+
+export const saveRecordingLatency = (latency: number) => {
+  saveAppSettings({ recordingLatency: latency });
+};
+
+export interface RecordingSession {
+  started: Promise<void>; // Resolves once audio is actually being captured
+  stop: () => Promise<Blob>;
+}
+
+export const startRecording = (stream: MediaStream): RecordingSession => {
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const started = new Promise<void>((resolve) => {
+    recorder.onstart = () => resolve();
+  });
+  const stopped = new Promise<Blob>((resolve) => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType }));
+  });
+  recorder.start();
+
+  return {
+    started,
+    stop: () => {
+      if (recorder.state !== "inactive") recorder.stop();
+      return stopped;
+    },
+  };
+};
+
+export const decodeRecording = async (ctx: BaseAudioContext, blob: Blob) =>
+  ctx.decodeAudioData(await blob.arrayBuffer());
+
+// The median delay between when each click was played and when its attack
+// shows up in the recording, or null if the clicks couldn't be heard
+export const measureLatency = (samples: Float32Array, sampleRate: number, clickTimes: number[]): number | null => {
+  const delays = clickTimes.flatMap((clickTime) => {
+    const from = Math.max(0, Math.floor(clickTime * sampleRate));
+    const to = Math.min(samples.length, Math.floor((clickTime + CALIBRATION_WINDOW) * sampleRate));
+    let peak = 0;
+    for (let i = from; i < to; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    if (peak < 0.01) return [];
+
+    // The attack: the first sample reaching half the click's peak
+    for (let i = from; i < to; i++) {
+      if (Math.abs(samples[i]) >= peak / 2) return [i / sampleRate - clickTime];
+    }
+    return [];
+  });
+
+  // Most clicks have to come through, or we're measuring noise
+  if (delays.length < clickTimes.length / 2) return null;
+  delays.sort((a, b) => a - b);
+  return delays[Math.floor(delays.length / 2)];
+};
+
+// Where the metronome's clicks come from: its AudioContext and a way to play
+// a click on that context's clock through its own sounds and output
+export interface ClickOutput {
+  ctx: AudioContext;
+  playClick: (time: number) => void;
+}
+
+// Plays the metronome's clicks through the speakers while recording them back,
+// so the latency measured is the one its clicks actually have.
+// Resolves with the measured latency in milliseconds.
+export const calibrateLatency = async (stream: MediaStream, { ctx, playClick }: ClickOutput): Promise<number> => {
+  const recording = startRecording(stream);
+  await recording.started;
+
+  const clickTimes = Array.from({ length: CALIBRATION_CLICKS }, (_, i) => CALIBRATION_LEAD + i * CALIBRATION_INTERVAL);
+  const origin = ctx.currentTime;
+  clickTimes.forEach((clickTime) => playClick(origin + clickTime));
+
+  const length = clickTimes[clickTimes.length - 1] + CALIBRATION_WINDOW + 0.2;
+  await new Promise((resolve) => setTimeout(resolve, length * 1000));
+  const buffer = await decodeRecording(ctx, await recording.stop());
+
+  const latency = measureLatency(buffer.getChannelData(0), buffer.sampleRate, clickTimes);
+  if (latency === null) throw new Error("Couldn't hear the clicks. Turn the speakers up and keep the mic near them");
+  return Math.round(latency * 1000);
+};
+
+// --- Live capture ---
+// Mic samples stamped with the AudioContext time they were captured at, so
+// they can be compared with anything else scheduled on that context.
+
+const CAPTURE_PROCESSOR = "mic-capture";
+const CAPTURE_CHUNK = 1024; // Samples per message, a multiple of the 128 sample render quantum
+
+const CAPTURE_PROCESSOR_SOURCE = `
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.buffer = new Float32Array(${CAPTURE_CHUNK});
+    this.length = 0;
+    this.start = 0;
+  }
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+    if (this.length === 0) this.start = currentTime;
+    this.buffer.set(input, this.length);
+    this.length += input.length;
+    if (this.length + input.length > this.buffer.length) {
+      this.port.postMessage({ time: this.start, samples: this.buffer.slice(0, this.length) });
+      this.length = 0;
+    }
+    return true;
+  }
+}
+registerProcessor("${CAPTURE_PROCESSOR}", MicCaptureProcessor);
+`;
+
+const contextsWithCapture = new WeakSet<BaseAudioContext>();
+
+// Chrome reports the capture delay on the track; the DOM typings don't list it yet
+type InputTrackSettings = MediaTrackSettings & { latency?: number };
+
+// Seconds a hit's capture time runs behind the click it was played against:
+// the click reaches the speakers outputLatency + baseLatency after its scheduled
+// time, and the mic input arrives the track's latency after the hit. All of it
+// is on the context's own clock, unlike the recorder's calibrated latency.
+export const captureLatency = (ctx: AudioContext, stream: MediaStream) => {
+  const settings: InputTrackSettings | undefined = stream.getAudioTracks()[0]?.getSettings();
+  return ctx.baseLatency + (ctx.outputLatency || 0) + (settings?.latency ?? 0);
+};
+
+// Calls `onSamples` with each chunk of mic input until the returned function is called
+export const captureMicrophone = async (
+  ctx: AudioContext,
+  stream: MediaStream,
+  onSamples: (samples: Float32Array, time: number) => void
+): Promise<() => void> => {
+  if (!contextsWithCapture.has(ctx)) {
+    const url = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR_SOURCE], { type: "application/javascript" }));
+    try {
+      await ctx.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    contextsWithCapture.add(ctx);
+  }
+
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, CAPTURE_PROCESSOR);
+  node.port.onmessage = (e: MessageEvent<{ samples: Float32Array; time: number }>) => onSamples(e.data.samples, e.data.time);
+  source.connect(node);
+  // The processor outputs silence, but it only runs while connected through to the speakers
+  node.connect(ctx.destination);
+
+  return () => {
+    node.port.onmessage = null;
+    source.disconnect();
+    node.disconnect();
+  };
+};
@@ -0,0 +1,57 @@
+// Practice routines: an ordered list of loop steps, each played a set number
+// of times at its own speed (and optionally metronome tempo). Saved per video.
+
+import { loadVideoData, saveVideoData } from "./storage";
+
+export interface RoutineStep {
+  id: string;
+  name: string;
+  start: number;
+  end: number;
+  reps: number;
+  rate: number;
+  bpm?: number; // Leave the metronome alone when unset
+}
+
+export interface Routine {
+  id: string;
+  name: string;
+  steps: RoutineStep[];
+}
+
+export interface RoutineProgress {
+  stepIndex: number;
+  rep: number; // 1-based, the repetition being played
+  finished: boolean;
+}
+
+export const DEFAULT_STEP_REPS = 4;
+
+export const loadRoutines = (videoId: string): Routine[] => {
+  return loadVideoData(videoId, "routines") ?? [];
+};
+
+export const saveRoutines = (videoId: string, routines: Routine[]) => {
+  saveVideoData(videoId, "routines", routines.length > 0 ? routines : undefined);
+};
+
+export const startRoutine = (routine: Routine): RoutineProgress => ({
+  stepIndex: 0,
+  rep: 1,
+  finished: routine.steps.length === 0,
+});
+
+// Called every time the loop wraps back to its start
+export const advanceRoutine = (routine: Routine, progress: RoutineProgress): RoutineProgress => {
+  const step = routine.steps[progress.stepIndex];
+  if (progress.finished || !step) return { ...progress, finished: true };
+
+  if (progress.rep < step.reps) return { ...progress, rep: progress.rep + 1 };
+
+  const stepIndex = progress.stepIndex + 1;
+  if (stepIndex >= routine.steps.length) return { ...progress, finished: true };
+  return { stepIndex, rep: 1, finished: false };
+};
+
+export const currentStep = (routine: Routine, progress: RoutineProgress): RoutineStep | null =>
+  progress.finished ? null : routine.steps[progress.stepIndex] ?? null;
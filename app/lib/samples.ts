@@ -0,0 +1,34 @@
+// Click sounds uploaded by the user, kept as the original file in IndexedDB
+// and decoded when the metronome needs them.
+
+import { runRequest } from "./audioStore";
+import { createId } from "./storage";
+
+export interface CustomSample {
+  id: string;
+  name: string;
+  audio: Blob;
+}
+
+// Long files are almost certainly the wrong upload, and would be decoded on every load
+export const MAX_SAMPLE_BYTES = 2 * 1024 * 1024;
+
+export const loadSamples = async (): Promise<CustomSample[]> => {
+  const samples = await runRequest<CustomSample[]>("samples", "readonly", (store) => store.getAll());
+  return samples.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const loadSample = (id: string) =>
+  runRequest<CustomSample | undefined>("samples", "readonly", (store) => store.get(id));
+
+// Throws if the file is too big to be a click
+export const addSample = async (file: File): Promise<CustomSample> => {
+  if (file.size > MAX_SAMPLE_BYTES) throw new Error("Samples should be a short hit, under 2 MB");
+  const sample: CustomSample = { id: createId(), name: file.name.replace(/\.[^.]+$/, ""), audio: file };
+  await runRequest("samples", "readwrite", (store) => store.put(sample));
+  return sample;
+};
+
+export const deleteSample = async (id: string) => {
+  await runRequest("samples", "readwrite", (store) => store.delete(id));
+};
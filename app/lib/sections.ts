@@ -0,0 +1,34 @@
+// Named loop sections, saved per video alongside the history.
+
+import { loadVideoData, saveVideoData } from "./storage";
+
+export interface LoopSection {
+  id: string;
+  name: string;
+  start: number;
+  end: number;
+  color: string;
+}
+
+// Cycled through as new sections are created
+export const SECTION_COLORS = [
+  "#3b82f6", // blue
+  "#f59e0b", // amber
+  "#10b981", // emerald
+  "#ef4444", // red
+  "#a855f7", // purple
+  "#ec4899", // pink
+  "#14b8a6", // teal
+  "#eab308", // yellow
+];
+
+export const loadSections = (videoId: string): LoopSection[] => {
+  return loadVideoData(videoId, "sections") ?? [];
+};
+
+export const saveSections = (videoId: string, sections: LoopSection[]) => {
+  saveVideoData(videoId, "sections", sections.length > 0 ? sections : undefined);
+};
+
+export const nextSectionColor = (sections: LoopSection[]) =>
+  SECTION_COLORS[sections.length % SECTION_COLORS.length];
@@ -0,0 +1,75 @@
+// Practice session state encoded in the URL query, e.g.
+// ?v=dQw4w9WgXcQ&in=12.5&out=20&loop=1&rate=0.75&bpm=96
+// Links opened at a timestamp carry &t=<seconds> (dropped when the Workspace mounts and rewrites the URL).
+// Songs played from a setlist also carry &set=<setlist id>&item=<index>.
+
+import type { SetlistPosition } from "./setlists";
+import { VIDEO_ID_PATTERN } from "./youtube";
+
+export interface SessionState {
+  loopStart: number;
+  loopEnd: number;
+  isLooping: boolean;
+  playbackRate: number;
+  bpm: number;
+}
+
+export interface SessionParams extends Partial<SessionState> {
+  videoId: string;
+  startTime?: number;
+  setlist?: SetlistPosition;
+}
+
+// Everything in the query apart from the video and setlist
+export type SessionOptions = Omit<SessionParams, "videoId" | "setlist">;
+
+const readNumber = (params: URLSearchParams, key: string, min: number, max: number) => {
+  const raw = params.get(key);
+  if (raw === null || raw.trim() === "") return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= min && value <= max ? value : undefined;
+};
+
+// Millisecond precision is as fine as any loop point we set
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+export const parseSessionParams = (params: URLSearchParams): SessionParams | null => {
+  const videoId = params.get("v");
+  if (!videoId || !VIDEO_ID_PATTERN.test(videoId)) return null;
+
+  const session: SessionParams = { videoId };
+  const loopStart = readNumber(params, "in", 0, Infinity);
+  const loopEnd = readNumber(params, "out", 0, Infinity);
+  if (loopStart !== undefined) session.loopStart = loopStart;
+  if (loopEnd !== undefined && (loopStart === undefined || loopEnd > loopStart)) session.loopEnd = loopEnd;
+  if (params.has("loop")) session.isLooping = params.get("loop") === "1";
+
+  const playbackRate = readNumber(params, "rate", 0.25, 2);
+  if (playbackRate !== undefined) session.playbackRate = playbackRate;
+  const bpm = readNumber(params, "bpm", 30, 300);
+  if (bpm !== undefined) session.bpm = Math.round(bpm);
+  const startTime = readNumber(params, "t", 0, Infinity);
+  if (startTime !== undefined) session.startTime = startTime;
+
+  const setlistId = params.get("set");
+  const index = readNumber(params, "item", 0, Infinity);
+  if (setlistId && index !== undefined && Number.isInteger(index)) session.setlist = { setlistId, index };
+
+  return session;
+};
+
+// Defaults (normal speed, 120 BPM) are left out to keep shared links short
+export const buildSessionQuery = (videoId: string, state: SessionOptions = {}, setlist?: SetlistPosition) => {
+  const params = new URLSearchParams({ v: videoId });
+  if (state.loopStart !== undefined) params.set("in", formatNumber(state.loopStart));
+  if (state.loopEnd !== undefined) params.set("out", formatNumber(state.loopEnd));
+  if (state.isLooping) params.set("loop", "1");
+  if (state.playbackRate !== undefined && state.playbackRate !== 1) params.set("rate", formatNumber(state.playbackRate));
+  if (state.bpm !== undefined && state.bpm !== 120) params.set("bpm", String(state.bpm));
+  if (state.startTime !== undefined) params.set("t", formatNumber(state.startTime));
+  if (setlist) {
+    params.set("set", setlist.setlistId);
+    params.set("item", String(setlist.index));
+  }
+  return `?${params.toString()}`;
+};
@@ -0,0 +1,80 @@
+// Setlists: named, ordered lists of YouTube videos played one after another.
+
+import { loadData, saveData, createId } from "./storage";
+import { findVideoLink } from "./youtube";
+import type { SessionState } from "./sessionUrl";
+
+export interface SetlistItem {
+  id: string;
+  videoId: string;
+  title?: string;
+  // Part of the video to play; the set moves on when `end` is reached
+  start?: number;
+  end?: number;
+  rate?: number;
+}
+
+export interface Setlist {
+  id: string;
+  name: string;
+  items: SetlistItem[];
+}
+
+// Which song of which set is playing, kept in the page URL
+export interface SetlistPosition {
+  setlistId: string;
+  index: number;
+}
+
+export const loadSetlists = (): Setlist[] => loadData().setlists;
+
+export const saveSetlists = (setlists: Setlist[]) => {
+  const data = loadData();
+  data.setlists = setlists;
+  saveData(data);
+};
+
+export const findSetlist = (id: string) => loadSetlists().find((s) => s.id === id) ?? null;
+
+// Replaces the stored setlist with the same ID
+export const saveSetlist = (setlist: Setlist) => {
+  saveSetlists(loadSetlists().map((s) => (s.id === setlist.id ? setlist : s)));
+};
+
+// Separators people put between a song title and its link
+const TITLE_SEPARATORS = /[\s\-–—:|]+$/;
+
+// One link per line, optionally after a title ("Song name - https://youtu.be/...").
+// Timestamped links (?t=, &end=) set where the song starts and stops.
+// Lines without a link are reported back so the user can fix them.
+export const parseSetlistText = (text: string): { items: SetlistItem[]; invalidLines: string[] } => {
+  const items: SetlistItem[] = [];
+  const invalidLines: string[] = [];
+
+  text.split("\n").map((line) => line.trim()).filter(Boolean).forEach((line) => {
+    const link = findVideoLink(line);
+    if (!link) {
+      invalidLines.push(line);
+      return;
+    }
+    const title = line.slice(0, link.index).replace(TITLE_SEPARATORS, "").trim();
+    const { videoId, start, end } = link.link;
+    items.push({
+      id: createId(),
+      videoId,
+      ...(title ? { title } : {}),
+      ...(start !== undefined ? { start } : {}),
+      ...(end !== undefined ? { end } : {}),
+    });
+  });
+
+  return { items, invalidLines };
+};
+
+// The loop range and speed a set item opens with. The range is where the song
+// starts and stops in the set; looping is left off until the user turns it on.
+export const setlistItemSession = (item: SetlistItem): Partial<SessionState> => ({
+  ...(item.start !== undefined ? { loopStart: item.start } : {}),
+  ...(item.end !== undefined ? { loopEnd: item.end } : {}),
+  ...(item.rate !== undefined ? { playbackRate: item.rate } : {}),
+});
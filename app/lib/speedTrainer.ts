@@ -0,0 +1,61 @@
+// Progressive speed trainer: raise the playback rate by `step` every
+// `repsPerStep` clean loop repetitions until `targetRate` is reached.
+
+export interface SpeedTrainerSettings {
+  startRate: number;
+  targetRate: number;
+  step: number;
+  repsPerStep: number;
+}
+
+export interface SpeedTrainerState {
+  rate: number;
+  cleanReps: number; // Clean reps at the current rate
+  totalReps: number;
+  passMissed: boolean; // The pass in progress was marked as not clean
+  finished: boolean;
+}
+
+export const DEFAULT_TRAINER_SETTINGS: SpeedTrainerSettings = {
+  startRate: 0.7,
+  targetRate: 1,
+  step: 0.05,
+  repsPerStep: 3,
+};
+
+// Round to hundredths so repeated float steps don't drift
+const roundRate = (rate: number) => Math.round(rate * 100) / 100;
+
+export const startTrainer = (settings: SpeedTrainerSettings): SpeedTrainerState => ({
+  rate: roundRate(settings.startRate),
+  cleanReps: 0,
+  totalReps: 0,
+  passMissed: false,
+  finished: settings.startRate >= settings.targetRate,
+});
+
+// Called every time the loop wraps back to its start
+export const completeRep = (state: SpeedTrainerState, settings: SpeedTrainerSettings): SpeedTrainerState => {
+  const totalReps = state.totalReps + 1;
+  const cleanReps = state.passMissed ? 0 : state.cleanReps + 1;
+
+  if (state.finished || cleanReps < settings.repsPerStep) {
+    return { ...state, totalReps, cleanReps, passMissed: false };
+  }
+
+  const rate = roundRate(Math.min(settings.targetRate, state.rate + settings.step));
+  return {
+    rate,
+    cleanReps: 0,
+    totalReps,
+    passMissed: false,
+    finished: rate >= settings.targetRate,
+  };
+};
+
+// The current pass wasn't clean: it won't count, and the streak at this rate restarts
+export const missRep = (state: SpeedTrainerState): SpeedTrainerState => ({
+  ...state,
+  cleanReps: 0,
+  passMissed: true,
+});
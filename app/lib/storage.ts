@@ -0,0 +1,183 @@
+// Everything the app remembers, stored as one versioned document in localStorage.
+// Bump SCHEMA_VERSION and add a migration whenever the shape below changes.
+
+import type { LoopSection } from "./sections";
+import type { TempoMap } from "./tempoMap";
+import type { Routine } from "./routines";
+import type { PracticeNote } from "./notes";
+import type { Setlist } from "./setlists";
+import type { ShortcutSettings } from "./commands";
+import type { MidiBinding } from "./midi";
+import type { ClickSoundSettings } from "./clickSounds";
+import type { TimeSignature } from "./subdivisions";
+
+export const SCHEMA_VERSION = 3;
+
+const STORAGE_KEY = "drum_practice_data";
+
+// Version 0: the original layout, one localStorage key per feature
+const LEGACY_KEYS = {
+  history: "drum_history",
+  sections: "drum_sections",
+  tempoMaps: "drum_tempo_maps",
+};
+
+// Every YouTube video opened, which Landing shows as the practice library
+export interface HistoryEntry {
+  id: string;
+  title: string; // As reported by YouTube
+  timestamp: number; // Last practiced
+  customTitle?: string;
+  pinned?: boolean;
+  tags?: string[];
+  practiceSeconds?: number; // Total time spent playing it
+}
+
+// Per-video settings, keyed by source ID (see getSourceId)
+export interface VideoData {
+  sections?: LoopSection[];
+  tempoMap?: TempoMap;
+  routines?: Routine[];
+  notes?: PracticeNote[];
+}
+
+// App-wide preferences. Every field is optional, so new ones don't need a migration.
+export interface AppSettings {
+  shortcuts?: ShortcutSettings;
+  midi?: MidiBinding[];
+  recordingLatency?: number; // Milliseconds, see recording.ts
+  clickSounds?: ClickSoundSettings;
+  timeSignature?: TimeSignature;
+}
+
+export interface PracticeData {
+  version: number;
+  history: HistoryEntry[];
+  videos: Record<string, VideoData>;
+  settings: AppSettings;
+  setlists: Setlist[];
+}
+
+export type VersionedData = { version: number } & Record<string, unknown>;
+
+const emptyData = (): PracticeData => ({ version: SCHEMA_VERSION, history: [], videos: {}, settings: {}, setlists: [] });
+
+// --- Migrations ---
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1
+const MIGRATIONS: ((data: VersionedData) => VersionedData)[] = [
+  // 0 -> 1: fold the per-feature keys into one document
+  (data) => {
+    const videos: Record<string, Record<string, unknown>> = {};
+    Object.entries(asRecord(data.sections)).forEach(([id, sections]) => {
+      videos[id] = { ...videos[id], sections };
+    });
+    Object.entries(asRecord(data.tempoMaps)).forEach(([id, tempoMap]) => {
+      videos[id] = { ...videos[id], tempoMap };
+    });
+    return {
+      version: 1,
+      history: Array.isArray(data.history) ? data.history : [],
+      videos,
+    };
+  },
+  // 1 -> 2: app-wide settings
+  (data) => ({ ...data, version: 2, settings: {} }),
+  // 2 -> 3: setlists
+  (data) => ({ ...data, version: 3, setlists: [] }),
+];
+
+// Throws for documents written by a newer version of the app
+export const migrate = (data: VersionedData): VersionedData => {
+  if (!Number.isInteger(data.version) || data.version < 0) {
+    throw new Error("Data has no valid version number");
+  }
+  if (data.version > SCHEMA_VERSION) {
+    throw new Error(`Data is from a newer version (${data.version}) of the app`);
+  }
+  let current = data;
+  while (current.version < SCHEMA_VERSION) {
+    current = MIGRATIONS[current.version](current);
+  }
+  return current;
+};
+
+const readLegacyData = (): VersionedData => {
+  const read = (key: string) => {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : undefined;
+  };
+  return {
+    version: 0,
+    history: read(LEGACY_KEYS.history),
+    sections: read(LEGACY_KEYS.sections),
+    tempoMaps: read(LEGACY_KEYS.tempoMaps),
+  };
+};
+
+// --- Load / Save ---
+
+export const loadData = (): PracticeData => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      // First run on this schema: pick up anything saved in the old layout
+      const migrated = migrate(readLegacyData()) as unknown as PracticeData;
+      saveData(migrated);
+      Object.values(LEGACY_KEYS).forEach((key) => localStorage.removeItem(key));
+      return migrated;
+    }
+    return migrate(JSON.parse(stored)) as unknown as PracticeData;
+  } catch (e) {
+    console.error("Failed to load practice data", e);
+    return emptyData();
+  }
+};
+
+export const saveData = (data: PracticeData) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...data, version: SCHEMA_VERSION }));
+  } catch (e) {
+    console.error("Failed to save practice data", e);
+  }
+};
+
+export const loadVideoData = <K extends keyof VideoData>(videoId: string, field: K): VideoData[K] => {
+  return loadData().videos[videoId]?.[field];
+};
+
+// Passing `undefined` removes the setting; videos with nothing left are dropped
+export const saveVideoData = <K extends keyof VideoData>(videoId: string, field: K, value: VideoData[K]) => {
+  const data = loadData();
+  const video = { ...data.videos[videoId] };
+  if (value === undefined) delete video[field];
+  else video[field] = value;
+
+  if (Object.keys(video).length > 0) data.videos[videoId] = video;
+  else delete data.videos[videoId];
+  saveData(data);
+};
+
+export const loadAppSettings = (): AppSettings => loadData().settings;
+
+export const saveAppSettings = (patch: Partial<AppSettings>) => {
+  const data = loadData();
+  data.settings = { ...data.settings, ...patch };
+  saveData(data);
+};
+
+export const loadHistory = (): HistoryEntry[] => loadData().history;
+
+// Moves the entry to the top, keeping anything the user has set on it
+export const addToHistory = (entry: HistoryEntry) => {
+  const data = loadData();
+  const existing = data.history.find((h) => h.id === entry.id);
+  data.history = [{ ...existing, ...entry }, ...data.history.filter((h) => h.id !== entry.id)];
+  saveData(data);
+};
+
+export const createId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,93 @@
+// Metronome subdivisions: where the extra clicks fall inside one beat,
+// as fractions of the beat (the first offset is always the beat itself).
+// Also the time signature the beats are counted in.
+
+import { loadAppSettings, saveAppSettings } from "./storage";
+import type { ClickRole } from "./clickSounds";
+
+export type SubdivisionId = "none" | "eighths" | "triplets" | "sixteenths" | "quintuplets" | "swing";
+
+export interface Subdivision {
+  id: SubdivisionId;
+  label: string;
+  // Names for the clicks after the beat, as counted out loud
+  counts: string[];
+  // The sound each of those clicks plays: the "&" halfway through the beat,
+  // the 16th "e"/"a" around it, or a tuplet
+  sounds: Exclude<ClickRole, "accent" | "normal">[];
+}
+
+export const SUBDIVISIONS: Subdivision[] = [
+  { id: "none", label: "Beats", counts: [], sounds: [] },
+  { id: "eighths", label: "8ths", counts: ["&"], sounds: ["offbeat"] },
+  { id: "triplets", label: "Triplets", counts: ["trip", "let"], sounds: ["tuplet", "tuplet"] },
+  { id: "sixteenths", label: "16ths", counts: ["e", "&", "a"], sounds: ["subdivision", "offbeat", "subdivision"] },
+  { id: "quintuplets", label: "5lets", counts: ["2", "3", "4", "5"], sounds: ["tuplet", "tuplet", "tuplet", "tuplet"] },
+  { id: "swing", label: "Swing", counts: ["&"], sounds: ["offbeat"] },
+];
+
+// --- Time signature ---
+
+export type BeatType = 0 | 1 | 2; // 0: Mute, 1: Normal, 2: Accent
+
+export interface TimeSignature {
+  beatPattern: BeatType[]; // One per beat in the bar
+  beatUnit: number; // The denominator
+}
+
+// Note values the beat can be counted in
+export const DENOMINATORS = [2, 4, 8, 16];
+
+export const MAX_BEATS_PER_BAR = 12;
+
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { beatPattern: [2, 1, 1, 1], beatUnit: 4 };
+
+export const isBeatPattern = (value: unknown): value is BeatType[] =>
+  Array.isArray(value) &&
+  value.length >= 1 &&
+  value.length <= MAX_BEATS_PER_BAR &&
+  value.every((beat) => beat === 0 || beat === 1 || beat === 2);
+
+export const isBeatUnit = (value: unknown): value is number =>
+  typeof value === "number" && DENOMINATORS.includes(value);
+
+// BPM always counts quarter notes, so the beat unit sets how long a beat is:
+// at 120 BPM a 4/4 beat lasts 0.5s and a 6/8 beat 0.25s. This is the tempo in
+// beats of the unit, for anything that works in beats.
+export const beatTempo = (bpm: number, beatUnit: number) => (bpm * beatUnit) / 4;
+
+// The downbeat is accented; compound meters (6/8, 9/8, 12/16...) also accent
+// the start of each group of three
+export const defaultBeatPattern = (beats: number, beatUnit: number): BeatType[] => {
+  const compound = beatUnit >= 8 && beats > 3 && beats % 3 === 0;
+  return Array.from({ length: beats }, (_, i) => (i === 0 || (compound && i % 3 === 0) ? 2 : 1));
+};
+
+// Each field falls back on its own, so a bad saved value can't break the metronome
+export const loadTimeSignature = (): TimeSignature => {
+  const saved: Partial<Record<keyof TimeSignature, unknown>> = loadAppSettings().timeSignature ?? {};
+  return {
+    beatPattern: isBeatPattern(saved.beatPattern) ? saved.beatPattern : DEFAULT_TIME_SIGNATURE.beatPattern,
+    beatUnit: isBeatUnit(saved.beatUnit) ? saved.beatUnit : DEFAULT_TIME_SIGNATURE.beatUnit,
+  };
+};
+
+export const saveTimeSignature = (timeSignature: TimeSignature) => {
+  saveAppSettings({ timeSignature });
+};
+
+// Swing ratio: where the off-beat lands. 0.5 is straight, 2/3 is a triplet shuffle.
+export const DEFAULT_SWING = 2 / 3;
+export const MIN_SWING = 0.5;
+export const MAX_SWING = 0.75;
+
+export const getSubdivisionOffsets = (id: SubdivisionId, swing: number = DEFAULT_SWING): number[] => {
+  switch (id) {
+    case "none": return [0];
+    case "eighths": return [0, 1 / 2];
+    case "triplets": return [0, 1 / 3, 2 / 3];
+    case "sixteenths": return [0, 1 / 4, 2 / 4, 3 / 4];
+    case "quintuplets": return [0, 1 / 5, 2 / 5, 3 / 5, 4 / 5];
+    case "swing": return [0, Math.min(MAX_SWING, Math.max(MIN_SWING, swing))];
+  }
+};
@@ -0,0 +1,32 @@
+// Recorded takes, one IndexedDB record per take, looked up by the video they
+// belong to.
+
+import { runRequest } from "./audioStore";
+
+export interface Take {
+  id: string;
+  videoId: string;
+  // The loop and speed it was played over
+  start: number;
+  end: number;
+  rate: number;
+  // Video time at the first sample of the recording, from the player's first
+  // report once it was playing. Older takes don't have it and line up with `start`.
+  videoStart?: number;
+  recordedAt: number;
+  audio: Blob;
+}
+
+// Newest first
+export const loadTakes = async (videoId: string): Promise<Take[]> => {
+  const takes = await runRequest<Take[]>("takes", "readonly", (store) => store.index("videoId").getAll(videoId));
+  return takes.sort((a, b) => b.recordedAt - a.recordedAt);
+};
+
+export const saveTake = async (take: Take) => {
+  await runRequest("takes", "readwrite", (store) => store.put(take));
+};
+
+export const deleteTake = async (id: string) => {
+  await runRequest("takes", "readwrite", (store) => store.delete(id));
+};
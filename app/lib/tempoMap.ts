@@ -0,0 +1,99 @@
+// Tempo map for a video: a first downbeat plus BPM and meter, with optional
+// tempo changes. Each change starts a new bar at its timestamp.
+
+import { loadVideoData, saveVideoData } from "./storage";
+
+export interface TempoChange {
+  time: number;
+  bpm: number;
+  beatsPerBar: number;
+}
+
+export interface TempoMap {
+  downbeat: number;
+  bpm: number;
+  beatsPerBar: number;
+  changes: TempoChange[];
+}
+
+export type SnapMode = "off" | "beat" | "bar";
+
+export interface GridLine {
+  time: number;
+  isBar: boolean;
+}
+
+export const DEFAULT_TEMPO_MAP: TempoMap = {
+  downbeat: 0,
+  bpm: 120,
+  beatsPerBar: 4,
+  changes: [],
+};
+
+export const loadTempoMap = (videoId: string): TempoMap | null => {
+  return loadVideoData(videoId, "tempoMap") ?? null;
+};
+
+export const saveTempoMap = (videoId: string, map: TempoMap | null) => {
+  saveVideoData(videoId, "tempoMap", map ?? undefined);
+};
+
+// The map as consecutive segments, starting with the first downbeat
+const getSegments = (map: TempoMap): TempoChange[] => [
+  { time: map.downbeat, bpm: map.bpm, beatsPerBar: map.beatsPerBar },
+  ...map.changes
+    .filter((c) => c.time > map.downbeat && c.bpm > 0)
+    .sort((a, b) => a.time - b.time),
+];
+
+// Beat and bar lines between `from` and `to`. The first segment's grid is
+// extended backwards so pickups before the first downbeat line up too.
+export const getGridLines = (map: TempoMap, from: number, to: number): GridLine[] => {
+  const lines: GridLine[] = [];
+  const segments = getSegments(map);
+
+  segments.forEach((segment, i) => {
+    const secondsPerBeat = 60 / segment.bpm;
+    const end = segments[i + 1]?.time ?? to;
+    const firstBeat = i === 0
+      ? Math.ceil((from - segment.time) / secondsPerBeat)
+      : Math.max(0, Math.ceil((from - segment.time) / secondsPerBeat));
+
+    for (let beat = firstBeat; ; beat++) {
+      const time = segment.time + beat * secondsPerBeat;
+      // Stop short of the next segment, which draws its own first bar line
+      if (time > to || time >= end - 0.001) break;
+      const beatInBar = ((beat % segment.beatsPerBar) + segment.beatsPerBar) % segment.beatsPerBar;
+      lines.push({ time, isBar: beatInBar === 0 });
+    }
+  });
+
+  return lines;
+};
+
+// Nearest beat or bar line to `time`
+export const snapTime = (map: TempoMap, time: number, mode: SnapMode): number => {
+  if (mode === "off") return time;
+
+  const segments = getSegments(map);
+  let index = 0;
+  while (index + 1 < segments.length && segments[index + 1].time <= time) index++;
+
+  const segment = segments[index];
+  const unit = (60 / segment.bpm) * (mode === "bar" ? segment.beatsPerBar : 1);
+  let snapped = segment.time + Math.round((time - segment.time) / unit) * unit;
+
+  // A tempo change is always a bar line, and may be closer than our own grid
+  const next = segments[index + 1];
+  if (next && (snapped > next.time || next.time - time < Math.abs(snapped - time))) {
+    snapped = next.time;
+  }
+
+  return Math.max(0, snapped);
+};
+
+// Tempo and meter in effect at `time`
+export const tempoAt = (map: TempoMap, time: number): TempoChange => {
+  const segments = getSegments(map);
+  return [...segments].reverse().find((segment) => segment.time <= time) ?? segments[0];
+};
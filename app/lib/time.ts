@@ -0,0 +1,34 @@
+export const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+// Shortest loop we allow, in seconds
+export const MIN_LOOP_LENGTH = 0.05;
+
+// m:ss.mmm, for loop points that need to land between beats
+export const formatTimecode = (seconds: number) => {
+  const totalMs = Math.round(Math.max(0, seconds) * 1000);
+  const mins = Math.floor(totalMs / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${mins}:${secs.toString().padStart(2, "0")}.${ms.toString().padStart(3, "0")}`;
+};
+
+// Accepts "ss.mmm", "m:ss.mmm" or "h:mm:ss.mmm". Returns null if the text isn't a time.
+export const parseTimecode = (text: string): number | null => {
+  const parts = text.trim().split(":");
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d*)?$/.test(part))) return null;
+  // Only the seconds field may have a fraction
+  if (parts.slice(0, -1).some((part) => part.includes("."))) return null;
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+};
+
+// Practice totals: "1h 05m", "12m", "<1m"
+export const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  if (mins < 1) return "<1m";
+  if (mins < 60) return `${mins}m`;
+  return `${Math.floor(mins / 60)}h ${(mins % 60).toString().padStart(2, "0")}m`;
+};
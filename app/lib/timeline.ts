@@ -0,0 +1,42 @@
+// The visible window of the ControlPanel timeline, so long songs can be
+// zoomed in far enough to place loop points on individual notes.
+
+export interface TimelineView {
+  start: number;
+  end: number;
+}
+
+// Narrowest window we zoom to, in seconds
+export const MIN_VIEW_SPAN = 1;
+// Space left either side when fitting the view to the loop
+const FIT_PADDING = 0.1;
+
+export const fullView = (duration: number): TimelineView => ({ start: 0, end: duration });
+
+// Slide a window of the same span so it stays inside the video
+export const panView = (view: TimelineView, start: number, duration: number): TimelineView => {
+  const span = Math.min(view.end - view.start, duration);
+  const clamped = Math.max(0, Math.min(start, duration - span));
+  return { start: clamped, end: clamped + span };
+};
+
+// Scale the window by `factor` (< 1 zooms in, > 1 zooms out) and place it so
+// `time` sits at `ratio` (0-1) across the screen. Pinch-zoom uses this directly.
+export const zoomViewAt = (view: TimelineView, factor: number, time: number, ratio: number, duration: number): TimelineView => {
+  const span = Math.min(duration, Math.max(MIN_VIEW_SPAN, (view.end - view.start) * factor));
+  return panView({ start: 0, end: span }, time - span * ratio, duration);
+};
+
+// Zoom around `center`, which stays at the same place on screen
+export const zoomView = (view: TimelineView, factor: number, center: number, duration: number): TimelineView => {
+  const ratio = view.end > view.start ? (center - view.start) / (view.end - view.start) : 0.5;
+  return zoomViewAt(view, factor, center, ratio, duration);
+};
+
+export const fitView = (start: number, end: number, duration: number): TimelineView => {
+  const span = Math.max(MIN_VIEW_SPAN, (end - start) * (1 + FIT_PADDING * 2));
+  return panView({ start: 0, end: Math.min(span, duration) }, (start + end) / 2 - span / 2, duration);
+};
+
+export const isFullView = (view: TimelineView, duration: number) =>
+  view.start <= 0 && view.end >= duration;
@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import {
+  OnsetDetector,
+  ScheduledClick,
+  buildHistogram,
+  detectOnsets,
+  matchOnset,
+  summarizeTiming,
+  MAX_DEVIATION,
+} from "./timing";
+
+const RATE = 48000;
+
+const silence = (seconds: number) => new Float32Array(Math.round(seconds * RATE));
+
+// A 10ms drum hit that starts at full level; returns the exact time of its first sample
+const addHit = (samples: Float32Array, time: number, level = 0.8) => {
+  const start = Math.round(time * RATE);
+  for (let i = 0; i < 480 && start + i < samples.length; i++) {
+    samples[start + i] = level * Math.exp(-i / 48) * (i % 2 ? -1 : 1);
+  }
+  return start / RATE;
+};
+
+// Feeds the samples through in fixed-size chunks, like the capture worklet does
+const feed = (detector: OnsetDetector, samples: Float32Array, chunk: number, startTime = 0) => {
+  const onsets: number[] = [];
+  for (let i = 0; i < samples.length; i += chunk) {
+    onsets.push(...detector.process(samples.subarray(i, i + chunk), startTime + i / RATE));
+  }
+  return onsets;
+};
+
+const click = (time: number, beatIndex = 0, subIndex = 0): ScheduledClick => ({ time, beatIndex, subIndex });
+
+describe("OnsetDetector", () => {
+  it("finds each hit at its first sample", () => {
+    const samples = silence(2);
+    const hits = [0.25, 0.75, 1.2, 1.9].map((time) => addHit(samples, time));
+    const onsets = detectOnsets(samples, RATE);
+    expect(onsets).toHaveLength(hits.length);
+    onsets.forEach((onset, i) => expect(onset).toBeCloseTo(hits[i], 6));
+  });
+
+  it.each([1000, 333, 128, 1024])("finds the same onsets fed in %d sample chunks", (chunk) => {
+    const samples = silence(1);
+    // 995 and 5995 start just before a 1000 sample chunk ends, 24030 a few samples before a 256 sample frame does
+    const hits = [995, 5995, 24030, 40000].map((sample) => addHit(samples, sample / RATE));
+    const onsets = feed(new OnsetDetector(RATE), samples, chunk);
+    expect(onsets).toHaveLength(hits.length);
+    onsets.forEach((onset, i) => expect(onset).toBeCloseTo(hits[i], 6));
+    expect(onsets).toEqual(detectOnsets(samples, RATE).map((onset) => expect.closeTo(onset, 9)));
+  });
+
+  it("stamps onsets on the caller's clock", () => {
+    const samples = silence(1);
+    const hit = addHit(samples, 0.4);
+    const onsets = feed(new OnsetDetector(RATE), samples, 1024, 12.5);
+    expect(onsets).toHaveLength(1);
+    expect(onsets[0]).toBeCloseTo(12.5 + hit, 6);
+  });
+
+  it("ignores hits below the floor", () => {
+    const samples = silence(1);
+    addHit(samples, 0.3, 0.005);
+    const loud = addHit(samples, 0.6);
+    expect(detectOnsets(samples, RATE)).toEqual([expect.closeTo(loud, 6)]);
+  });
+
+  it("counts a flam or a rattle once", () => {
+    const samples = silence(1);
+    const first = addHit(samples, 0.5);
+    addHit(samples, 0.53);
+    const next = addHit(samples, 0.6);
+    const onsets = detectOnsets(samples, RATE);
+    expect(onsets).toHaveLength(2);
+    expect(onsets[0]).toBeCloseTo(first, 6);
+    expect(onsets[1]).toBeCloseTo(next, 6);
+  });
+});
+
+describe("matchOnset", () => {
+  const clicks = [click(0.5, 0), click(1, 1), click(1.5, 2)];
+
+  it("measures an early hit against the nearest click", () => {
+    const hit = matchOnset(0.97, clicks);
+    expect(hit?.click).toBe(clicks[1]);
+    expect(hit?.deviation).toBeCloseTo(-0.03, 9);
+  });
+
+  it("measures a late hit against the nearest click", () => {
+    const hit = matchOnset(1.52, clicks);
+    expect(hit?.click).toBe(clicks[2]);
+    expect(hit?.deviation).toBeCloseTo(0.02, 9);
+  });
+
+  it("doesn't rely on the clicks being in order", () => {
+    expect(matchOnset(0.51, [clicks[2], clicks[0], clicks[1]])?.click).toBe(clicks[0]);
+  });
+
+  it("picks the subdivision when it's closer than the beat", () => {
+    const withSub = [click(0, 0), click(0.25, 0, 1), click(0.5, 1)];
+    const hit = matchOnset(0.23, withSub);
+    expect(hit?.click).toBe(withSub[1]);
+    expect(hit?.deviation).toBeCloseTo(-0.02, 9);
+  });
+
+  it("leaves a hit further than MAX_DEVIATION from every click unmatched", () => {
+    expect(matchOnset(0.5 + MAX_DEVIATION + 0.01, [click(0.5), click(1.5)])).toBeNull();
+    expect(matchOnset(3, clicks)).toBeNull();
+  });
+
+  it("has nothing to match without clicks", () => {
+    expect(matchOnset(1, [])).toBeNull();
+  });
+});
+
+describe("summarizeTiming", () => {
+  it("scores each hit by how far off it is", () => {
+    // 100%, 80%, 60% and 0% of a hit
+    const summary = summarizeTiming([0, 0.01, -0.02, 0.05]);
+    expect(summary.count).toBe(4);
+    expect(summary.score).toBe(60);
+    expect(summary.mean).toBeCloseTo(0.01, 9);
+    expect(summary.spread).toBeCloseTo(Math.sqrt(6.5e-4), 9);
+  });
+
+  it("scores perfect time as 100", () => {
+    expect(summarizeTiming([0, 0, 0])).toEqual({ count: 3, score: 100, mean: 0, spread: 0 });
+  });
+
+  it("is empty without hits", () => {
+    expect(summarizeTiming([])).toEqual({ count: 0, score: 0, mean: 0, spread: 0 });
+  });
+});
+
+describe("buildHistogram", () => {
+  it("bins hits 10ms wide from -100 to +100ms", () => {
+    const bins = buildHistogram([0.002, 0.005, -0.005, 0.015, -0.095]);
+    expect(bins).toHaveLength(20);
+    expect(bins[10]).toBe(2);
+    expect(bins[9]).toBe(1);
+    expect(bins[11]).toBe(1);
+    expect(bins[0]).toBe(1);
+    expect(bins.reduce((sum, n) => sum + n, 0)).toBe(5);
+  });
+
+  it("puts hits beyond the range in the end bins", () => {
+    const bins = buildHistogram([-0.3, 0.25, 0.5]);
+    expect(bins[0]).toBe(1);
+    expect(bins[19]).toBe(2);
+  });
+});
+
+describe("timing a take", () => {
+  // Clicks every half second, played against with known offsets and a missed beat
+  const clickTimes = [0.5, 1, 1.5, 2, 2.5];
+  const offsets: (number | null)[] = [-0.012, 0.024, null, 0.003, -0.035];
+
+  const analyze = () => {
+    const clicks = clickTimes.map((time, i) => click(time, i % 4));
+    const samples = silence(3);
+    offsets.forEach((offset, i) => {
+      if (offset !== null) addHit(samples, clickTimes[i] + offset);
+    });
+    const onsets = feed(new OnsetDetector(RATE), samples, 1000);
+    const hits = onsets.map((onset) => matchOnset(onset, clicks));
+    return { clicks, onsets, hits };
+  };
+
+  it("measures each hit against its click", () => {
+    const { clicks, hits } = analyze();
+    expect(hits.map((hit) => hit?.click)).toEqual([clicks[0], clicks[1], clicks[3], clicks[4]]);
+    expect(hits[0]?.deviation).toBeCloseTo(-0.012, 4);
+    expect(hits[1]?.deviation).toBeCloseTo(0.024, 4);
+    expect(hits[2]?.deviation).toBeCloseTo(0.003, 4);
+    expect(hits[3]?.deviation).toBeCloseTo(-0.035, 4);
+  });
+
+  it("leaves the missed beat without a hit", () => {
+    const { clicks, hits } = analyze();
+    const matched = new Set(hits.map((hit) => hit?.click));
+    expect(clicks.filter((c) => !matched.has(c))).toEqual([clicks[2]]);
+  });
+
+  it("scores and bins the take", () => {
+    const deviations = analyze().hits.map((hit) => hit!.deviation);
+    // 76%, 52%, 94% and 30% of a hit
+    expect(summarizeTiming(deviations).score).toBe(63);
+    const bins = buildHistogram(deviations);
+    expect(bins[8]).toBe(1); // -12ms
+    expect(bins[12]).toBe(1); // +24ms
+    expect(bins[10]).toBe(1); // +3ms
+    expect(bins[6]).toBe(1); // -35ms
+  });
+});
@@ -0,0 +1,140 @@
+// Timing analysis: finding drum hits in microphone audio and measuring how
+// far each lands from the metronome click it was aimed at. Everything here
+// works on plain sample arrays and audio-clock times, so it runs the same on
+// live input and on synthetic buffers.
+
+// A click the metronome has put on the audio clock
+export interface ScheduledClick {
+  time: number; // AudioContext seconds
+  beatIndex: number;
+  subIndex: number; // 0 is the beat itself
+}
+
+export interface TimingHit {
+  click: ScheduledClick;
+  deviation: number; // Seconds; negative is early, positive is late
+}
+
+// --- Onset detection ---
+
+const FRAME_SIZE = 256;
+// A hit is a frame this much louder than the recent background...
+const ONSET_RATIO = 4;
+// ...and loud enough not to be room noise (mean square, about -40 dBFS)
+const DEFAULT_ONSET_FLOOR = 1e-4;
+// Drum hits ring on; ignore anything closer than this to the previous onset
+const MIN_ONSET_GAP = 0.06;
+const BACKGROUND_SMOOTHING = 0.05;
+
+// Finds onsets in a stream of samples fed in chunks of any size. Times are on
+// whatever clock the caller's `startTime`s use.
+export class OnsetDetector {
+  private pending = new Float32Array(0);
+  private pendingStart = 0;
+  private background = 0;
+  private wasAbove = false;
+  private lastOnset = -Infinity;
+
+  constructor(private sampleRate: number, private floor = DEFAULT_ONSET_FLOOR) {}
+
+  process(samples: Float32Array, startTime: number): number[] {
+    // Carry partial frames over to the next chunk
+    const data = new Float32Array(this.pending.length + samples.length);
+    data.set(this.pending);
+    data.set(samples, this.pending.length);
+    const dataStart = this.pending.length > 0 ? this.pendingStart : startTime;
+
+    const onsets: number[] = [];
+    let offset = 0;
+    for (; offset + FRAME_SIZE <= data.length; offset += FRAME_SIZE) {
+      const frame = data.subarray(offset, offset + FRAME_SIZE);
+      let energy = 0;
+      let peak = 0;
+      for (let i = 0; i < frame.length; i++) {
+        energy += frame[i] * frame[i];
+        peak = Math.max(peak, Math.abs(frame[i]));
+      }
+      energy /= frame.length;
+
+      const isAbove = energy > this.floor && energy > this.background * ONSET_RATIO;
+      if (isAbove && !this.wasAbove) {
+        // The attack: the first sample in the frame reaching half its peak
+        let attack = 0;
+        while (attack < frame.length && Math.abs(frame[attack]) < peak / 2) attack++;
+        const time = dataStart + (offset + attack) / this.sampleRate;
+        if (time - this.lastOnset >= MIN_ONSET_GAP) {
+          onsets.push(time);
+          this.lastOnset = time;
+        }
+      }
+      this.wasAbove = isAbove;
+      this.background += (energy - this.background) * BACKGROUND_SMOOTHING;
+    }
+
+    this.pending = data.slice(offset);
+    this.pendingStart = dataStart + offset / this.sampleRate;
+    return onsets;
+  }
+}
+
+// Onset times in seconds from the start of the buffer
+export const detectOnsets = (samples: Float32Array, sampleRate: number, floor?: number) =>
+  new OnsetDetector(sampleRate, floor).process(samples, 0);
+
+// --- Matching hits to clicks ---
+
+// Hits further than this from any click aren't aimed at one
+export const MAX_DEVIATION = 0.15;
+
+// The click a hit was aimed at: the nearest one, if it's within half the gap
+// to its neighbours (and MAX_DEVIATION)
+export const matchOnset = (onset: number, clicks: ScheduledClick[]): TimingHit | null => {
+  const sorted = [...clicks].sort((a, b) => a.time - b.time);
+  let best = -1;
+  sorted.forEach((click, i) => {
+    if (best < 0 || Math.abs(click.time - onset) < Math.abs(sorted[best].time - onset)) best = i;
+  });
+  if (best < 0) return null;
+
+  const click = sorted[best];
+  const deviation = onset - click.time;
+  const neighbour = deviation < 0 ? sorted[best - 1] : sorted[best + 1];
+  const window = neighbour ? Math.min(MAX_DEVIATION, Math.abs(neighbour.time - click.time) / 2) : MAX_DEVIATION;
+  return Math.abs(deviation) <= window ? { click, deviation } : null;
+};
+
+// --- Scoring ---
+
+// A hit scores 100 dead on, falling to 0 at this far off
+const SCORE_TOLERANCE = 0.05;
+
+export interface TimingSummary {
+  count: number;
+  score: number; // 0-100
+  mean: number; // Seconds; the overall push or drag
+  spread: number; // Standard deviation in seconds; how consistent the hits are
+}
+
+export const summarizeTiming = (deviations: number[]): TimingSummary => {
+  const count = deviations.length;
+  if (count === 0) return { count: 0, score: 0, mean: 0, spread: 0 };
+  const mean = deviations.reduce((sum, d) => sum + d, 0) / count;
+  const variance = deviations.reduce((sum, d) => sum + (d - mean) ** 2, 0) / count;
+  const score = deviations.reduce((sum, d) => sum + Math.max(0, 1 - Math.abs(d) / SCORE_TOLERANCE), 0) / count;
+  return { count, score: Math.round(score * 100), mean, spread: Math.sqrt(variance) };
+};
+
+export const HISTOGRAM_BIN = 0.01;
+export const HISTOGRAM_RANGE = 0.1;
+
+// Hit counts in HISTOGRAM_BIN wide bins from -HISTOGRAM_RANGE to +HISTOGRAM_RANGE.
+// Anything further out lands in the end bins.
+export const buildHistogram = (deviations: number[]): number[] => {
+  const binCount = Math.round((HISTOGRAM_RANGE * 2) / HISTOGRAM_BIN);
+  const bins = new Array<number>(binCount).fill(0);
+  deviations.forEach((d) => {
+    const index = Math.floor((d + HISTOGRAM_RANGE) / HISTOGRAM_BIN);
+    bins[Math.max(0, Math.min(binCount - 1, index))]++;
+  });
+  return bins;
+};
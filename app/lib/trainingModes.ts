@@ -0,0 +1,76 @@
+// Metronome training modes. Gap click plays some bars and drops out for others
+// so you have to keep time on your own; tempo ramp moves the click from one
+// tempo to another over a set number of bars or minutes.
+
+export type TrainingMode = "off" | "gap" | "ramp";
+
+export interface GapClickSettings {
+  playBars: number;
+  muteBars: number;
+  random: boolean; // After the first `playBars`, mute bars at random instead of in a cycle
+  chance: number; // 0-1, how likely a random bar is to be muted
+}
+
+export interface TempoRampSettings {
+  from: number; // BPM
+  to: number;
+  length: number;
+  unit: "bars" | "minutes";
+}
+
+export interface TrainingSettings {
+  mode: TrainingMode;
+  gap: GapClickSettings;
+  ramp: TempoRampSettings;
+}
+
+export const DEFAULT_TRAINING: TrainingSettings = {
+  mode: "off",
+  gap: { playBars: 2, muteBars: 2, random: false, chance: 0.3 },
+  ramp: { from: 80, to: 120, length: 32, unit: "bars" },
+};
+
+export const TRAINING_MODES: { id: TrainingMode; label: string }[] = [
+  { id: "off", label: "Off" },
+  { id: "gap", label: "Gap click" },
+  { id: "ramp", label: "Tempo ramp" },
+];
+
+// Where a bar falls in the gap click cycle. `bar` is 1-based within the phase;
+// `length` is 0 for random bars, which don't belong to a fixed-length phase.
+export interface GapPhase {
+  muted: boolean;
+  bar: number;
+  length: number;
+}
+
+// `bar` counts from 0 at the first bar of the mode
+export const gapPhase = (
+  { playBars, muteBars, random, chance }: GapClickSettings,
+  bar: number,
+  roll: () => number = Math.random
+): GapPhase => {
+  if (random) {
+    if (bar < playBars) return { muted: false, bar: bar + 1, length: playBars };
+    return { muted: roll() < chance, bar: bar - playBars + 1, length: 0 };
+  }
+  const position = bar % (playBars + muteBars);
+  return position < playBars
+    ? { muted: false, bar: position + 1, length: playBars }
+    : { muted: true, bar: position - playBars + 1, length: muteBars };
+};
+
+// 0 at the start of the ramp, 1 once it's done. `bars` may be fractional (mid-bar).
+export const rampProgress = ({ length, unit }: TempoRampSettings, bars: number, seconds: number) => {
+  const done = unit === "bars" ? bars / length : seconds / (length * 60);
+  return Math.min(1, Math.max(0, done));
+};
+
+// The ramp holds at `to` once it's done
+export const rampTempo = (settings: TempoRampSettings, bars: number, seconds: number) =>
+  settings.from + (settings.to - settings.from) * rampProgress(settings, bars, seconds);
+
+// What the bar counter shows, worked out on each downbeat
+export type TrainingStatus =
+  | ({ mode: "gap" } & GapPhase)
+  | { mode: "ramp"; bar: number; elapsed: number; bpm: number; progress: number };
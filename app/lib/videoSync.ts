@@ -0,0 +1,32 @@
+// Maps between the AudioContext clock and the video timeline so the metronome
+// can place its clicks on a beat grid anchored in the video.
+
+export interface VideoAnchor {
+  audioTime: number; // AudioContext time at which...
+  videoTime: number; // ...the video was at this position
+  rate: number; // Video seconds per audio second (the playbackRate)
+}
+
+// How far the reported video time may wander from our prediction before we
+// treat it as a jump (seek, loop wrap) rather than polling jitter.
+export const RESYNC_THRESHOLD = 0.15;
+// Below this we keep the existing anchor so the click stays steady
+export const DRIFT_TOLERANCE = 0.02;
+
+export const videoTimeAt = (anchor: VideoAnchor, audioTime: number) =>
+  anchor.videoTime + (audioTime - anchor.audioTime) * anchor.rate;
+
+export const audioTimeFor = (anchor: VideoAnchor, videoTime: number) =>
+  anchor.audioTime + (videoTime - anchor.videoTime) / anchor.rate;
+
+export const beatVideoTime = (beatIndex: number, downbeat: number, bpm: number) =>
+  downbeat + beatIndex * (60 / bpm);
+
+// Index of the first beat at or after `videoTime`. A beat within a millisecond
+// behind the playhead still counts so a seek straight onto a beat clicks.
+export const firstBeatIndexFrom = (videoTime: number, downbeat: number, bpm: number) =>
+  Math.ceil((videoTime - downbeat - 0.001) / (60 / bpm));
+
+// Position within the bar, also for beats before the downbeat
+export const beatInBar = (beatIndex: number, beatsPerBar: number) =>
+  ((beatIndex % beatsPerBar) + beatsPerBar) % beatsPerBar;
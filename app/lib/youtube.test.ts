@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { parseTimestamp, parseYouTubeUrl, YouTubeLinkError } from "./youtube";
+
+const ID = "dQw4w9WgXcQ";
+
+describe("parseTimestamp", () => {
+  it.each([
+    ["133", 133],
+    ["133s", 133],
+    ["12.5", 12.5],
+    ["2m13s", 133],
+    ["1h2m3s", 3723],
+    ["1h", 3600],
+    ["2:13", 133],
+    ["1:02:03", 3723],
+  ])("reads %s as %d seconds", (text, seconds) => {
+    expect(parseTimestamp(text)).toBe(seconds);
+  });
+
+  it.each(["", "abc", "1:2:3:4", "2m13"])("rejects %j", (text) => {
+    expect(parseTimestamp(text)).toBeNull();
+  });
+});
+
+describe("parseYouTubeUrl", () => {
+  it.each([
+    `https://www.youtube.com/watch?v=${ID}`,
+    `https://m.youtube.com/watch?v=${ID}&feature=share`,
+    `youtube.com/watch?v=${ID}`,
+    `https://youtu.be/${ID}`,
+    `https://www.youtube.com/shorts/${ID}`,
+    `https://www.youtube.com/live/${ID}?si=abc`,
+    `https://www.youtube.com/embed/${ID}`,
+    `https://www.youtube-nocookie.com/embed/${ID}`,
+    `https://music.youtube.com/watch?v=${ID}`,
+    ID,
+  ])("finds the video in %s", (url) => {
+    expect(parseYouTubeUrl(url)).toEqual({ videoId: ID });
+  });
+
+  it("reads the start time from t=, start= and #t=", () => {
+    expect(parseYouTubeUrl(`https://youtu.be/${ID}?t=90`).start).toBe(90);
+    expect(parseYouTubeUrl(`https://www.youtube.com/watch?v=${ID}&t=1h2m3s`).start).toBe(3723);
+    expect(parseYouTubeUrl(`https://www.youtube.com/embed/${ID}?start=42`).start).toBe(42);
+    expect(parseYouTubeUrl(`https://www.youtube.com/watch?v=${ID}#t=2m13s`).start).toBe(133);
+  });
+
+  it("leaves out a zero start", () => {
+    expect(parseYouTubeUrl(`https://youtu.be/${ID}?t=0`)).toEqual({ videoId: ID });
+  });
+
+  it("reads end= only when it comes after the start", () => {
+    expect(parseYouTubeUrl(`https://www.youtube.com/embed/${ID}?start=10&end=25`)).toEqual({ videoId: ID, start: 10, end: 25 });
+    expect(parseYouTubeUrl(`https://www.youtube.com/embed/${ID}?start=30&end=25`).end).toBeUndefined();
+  });
+
+  it("keeps the playlist", () => {
+    expect(parseYouTubeUrl(`https://www.youtube.com/watch?v=${ID}&list=PL12345`)).toEqual({ videoId: ID, playlistId: "PL12345" });
+  });
+
+  it.each([
+    ["", "Paste a YouTube link"],
+    ["   ", "Paste a YouTube link"],
+    ["not a link", "That doesn't look like a link"],
+    [`https://vimeo.com/watch?v=${ID}`, "Only YouTube links are supported"],
+    ["https://www.youtube.com/playlist?list=PL12345", "This is a playlist link. Open one of its videos and copy that link instead"],
+    ["https://www.youtube.com/feed/subscriptions", "This link doesn't point to a video"],
+    ["https://youtu.be/dQw4w9", "The video ID in this link looks incomplete"],
+  ])("rejects %j with a YouTubeLinkError", (input, message) => {
+    expect(() => parseYouTubeUrl(input)).toThrow(YouTubeLinkError);
+    expect(() => parseYouTubeUrl(input)).toThrow(message);
+  });
+});
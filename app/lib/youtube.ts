@@ -0,0 +1,135 @@
+// Parsing pasted YouTube links: the video, where to start (and stop) in it,
+// and the playlist it was opened from.
+
+import type { SessionOptions } from "./sessionUrl";
+
+export interface YouTubeLink {
+  videoId: string;
+  start?: number; // Seconds, from t= / start=
+  end?: number; // Seconds, from end=
+  playlistId?: string;
+}
+
+export class YouTubeLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "YouTubeLinkError";
+  }
+}
+
+export const VIDEO_ID_PATTERN = /^[a-zA-Z0-9_-]{11}$/;
+const YOUTUBE_HOSTS = ["youtube.com", "m.youtube.com", "music.youtube.com", "youtube-nocookie.com", "youtu.be"];
+// Paths that put the video ID in the next segment: /shorts/<id>, /live/<id>, /embed/<id>...
+const ID_PATH_PREFIXES = ["shorts", "live", "embed", "v", "e"];
+
+// Loop opened around a linked timestamp: a little run-up, then the moment itself
+const TIMESTAMP_LOOP_LEAD = 2;
+const TIMESTAMP_LOOP_LENGTH = 10;
+
+// "133", "133s", "2m13s", "1h2m13s" or "2:13"
+export const parseTimestamp = (value: string): number | null => {
+  const text = value.trim().toLowerCase();
+  if (/^\d+(\.\d+)?s?$/.test(text)) return parseFloat(text);
+
+  const units = text.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (units && text !== "") {
+    const [, h = "0", m = "0", s = "0"] = units;
+    return Number(h) * 3600 + Number(m) * 60 + Number(s);
+  }
+
+  if (/^\d+(:\d{1,2}){1,2}$/.test(text)) {
+    return text.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+  }
+  return null;
+};
+
+const toUrl = (text: string): URL | null => {
+  try {
+    return new URL(/^[a-z]+:\/\//i.test(text) ? text : `https://${text}`);
+  } catch {
+    return null;
+  }
+};
+
+const findVideoId = (url: URL, host: string): string | null => {
+  const segments = url.pathname.split("/").filter(Boolean);
+  if (host === "youtu.be") return segments[0] ?? null;
+  if (segments[0] === "watch") return url.searchParams.get("v");
+  if (ID_PATH_PREFIXES.includes(segments[0])) return segments[1] ?? null;
+  return url.searchParams.get("v");
+};
+
+// Throws a YouTubeLinkError saying what's wrong with the link
+export const parseYouTubeUrl = (input: string): YouTubeLink => {
+  const text = input.trim();
+  if (!text) throw new YouTubeLinkError("Paste a YouTube link");
+  if (VIDEO_ID_PATTERN.test(text)) return { videoId: text };
+
+  const url = toUrl(text);
+  if (!url || !url.hostname.includes(".")) throw new YouTubeLinkError("That doesn't look like a link");
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, "");
+  if (!YOUTUBE_HOSTS.includes(host)) throw new YouTubeLinkError("Only YouTube links are supported");
+
+  const playlistId = url.searchParams.get("list") ?? undefined;
+  const videoId = findVideoId(url, host);
+  if (!videoId) {
+    throw new YouTubeLinkError(playlistId
+      ? "This is a playlist link. Open one of its videos and copy that link instead"
+      : "This link doesn't point to a video");
+  }
+  if (!VIDEO_ID_PATTERN.test(videoId)) throw new YouTubeLinkError("The video ID in this link looks incomplete");
+
+  const link: YouTubeLink = { videoId };
+  if (playlistId) link.playlistId = playlistId;
+
+  // Shared links use ?t=, embeds use ?start=, some players put it in the #t= fragment
+  const hashTime = new URLSearchParams(url.hash.slice(1)).get("t");
+  const rawStart = url.searchParams.get("t") ?? url.searchParams.get("start") ?? hashTime;
+  const start = rawStart ? parseTimestamp(rawStart) : null;
+  if (start !== null && start > 0) link.start = start;
+
+  const rawEnd = url.searchParams.get("end");
+  const end = rawEnd ? parseTimestamp(rawEnd) : null;
+  if (end !== null && end > (link.start ?? 0)) link.end = end;
+
+  return link;
+};
+
+export const extractVideoId = (text: string): string | null => {
+  try {
+    return parseYouTubeUrl(text).videoId;
+  } catch {
+    return null;
+  }
+};
+
+// The first YouTube link in a line of text, and where it starts, so callers
+// can treat what comes before it as a title
+export const findVideoLink = (text: string): { link: YouTubeLink; index: number } | null => {
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    if (!/youtu/i.test(match[0])) continue;
+    try {
+      return { link: parseYouTubeUrl(match[0]), index: match.index };
+    } catch {
+      // Not a usable link, keep looking
+    }
+  }
+  return null;
+};
+
+// Where the Workspace opens for a link: at the timestamp, optionally looping around it
+export const linkSession = (link: YouTubeLink, loopAround: boolean): SessionOptions => {
+  if (link.start === undefined) return {};
+  if (!loopAround) return { startTime: link.start };
+
+  const loopStart = Math.max(0, link.start - TIMESTAMP_LOOP_LEAD);
+  return {
+    startTime: loopStart,
+    loopStart,
+    loopEnd: link.end ?? link.start + TIMESTAMP_LOOP_LENGTH,
+    isLooping: true,
+  };
+};
@@ -1,14 +1,79 @@
 "use client";
 
-import { useState } from "react";
+import { Suspense, useState, useCallback, useEffect } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Landing from "./components/Landing";
 import Workspace from "./components/Workspace";
+import { PlayerSource } from "./lib/player";
+import { SessionState, parseSessionParams, buildSessionQuery } from "./lib/sessionUrl";
+import { Setlist, findSetlist, setlistItemSession } from "./lib/setlists";
+import { registerServiceWorker } from "./lib/offline";
 
-export default function Home() {
-  const [videoId, setVideoId] = useState<string | null>(null);
+function Home() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
 
-  if (videoId) {
-    return <Workspace videoId={videoId} onBack={() => setVideoId(null)} />;
+  // YouTube sessions live in the URL so they survive a refresh and can be shared.
+  // Local files can't be put in a link, so they're kept in state instead.
+  const session = parseSessionParams(searchParams);
+  const [file, setFile] = useState<File | null>(null);
+
+  // Installable and usable offline once the app shell is cached
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
+  const source: PlayerSource | null = session
+    ? { type: "youtube", videoId: session.videoId }
+    : file
+      ? { type: "file", file }
+      : null;
+
+  // Playing through a setlist: the set and song index are in the URL too
+  const setlistId = session?.setlist?.setlistId;
+  const setlistIndex = session?.setlist?.index;
+  const setlist = setlistId ? findSetlist(setlistId) : null;
+  const isInSetlist = setlist !== null && setlistIndex !== undefined && setlistIndex < setlist.items.length;
+
+  const playSetlist = (target: Setlist, index: number) => {
+    const item = target.items[index];
+    if (!item) return;
+    router.push(buildSessionQuery(item.videoId, setlistItemSession(item), { setlistId: target.id, index }));
+  };
+
+  const handleSetlistSelect = (index: number) => {
+    // Re-read the set: the Workspace may have saved changes to it
+    const latest = setlistId ? findSetlist(setlistId) : null;
+    if (latest) playSetlist(latest, index);
+  };
+
+  const handleBack = () => {
+    setFile(null);
+    if (session) router.push("/");
+  };
+
+  // Keep the URL in step with the Workspace without adding history entries
+  const sessionVideoId = session?.videoId;
+  const handleSessionChange = useCallback((state: SessionState) => {
+    if (!sessionVideoId) return;
+    const position = setlistId && setlistIndex !== undefined ? { setlistId, index: setlistIndex } : undefined;
+    const query = buildSessionQuery(sessionVideoId, state, position);
+    if (query !== window.location.search) window.history.replaceState(null, "", query);
+  }, [sessionVideoId, setlistId, setlistIndex]);
+
+  if (source) {
+    return (
+      <Workspace
+        key={source.type === "youtube" ? `${source.videoId}:${setlistIndex ?? ""}` : source.file.name}
+        source={source}
+        initialSession={session ?? undefined}
+        onSessionChange={handleSessionChange}
+        onBack={handleBack}
+        setlist={isInSetlist ? setlist : undefined}
+        setlistIndex={setlistIndex}
+        onSetlistSelect={handleSetlistSelect}
+      />
+    );
   }
 
   return (
@@ -18,10 +83,23 @@ export default function Home() {
              <div className="absolute top-0 left-1/4 w-96 h-96 bg-blue-900/20 rounded-full blur-3xl opacity-30" />
              <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-purple-900/20 rounded-full blur-3xl opacity-30" />
         </div>
-        
+
         <div className="relative z-10">
-            <Landing onVideoSelect={setVideoId} />
+            <Landing
+                onVideoSelect={(videoId, options) => router.push(buildSessionQuery(videoId, options))}
+                onFileSelect={setFile}
+                onSetlistPlay={playSetlist}
+            />
         </div>
     </main>
   );
 }
+
+// useSearchParams needs a Suspense boundary for the static export
+export default function Page() {
+  return (
+    <Suspense>
+      <Home />
+    </Suspense>
+  );
+}
@@ -0,0 +1,77 @@
+// Keeps the app shell available offline. Everything the app saves (library,
+// notes, settings, sounds, takes) is already in localStorage and IndexedDB, so
+// only the pages and build files need caching; YouTube itself can't be.
+
+const CACHE = "scrubber-v1";
+const SHELL = ["/", "/manifest.webmanifest", "/icon-192.png", "/icon-512.png"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE).then((cache) => cache.addAll(SHELL)).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page sends the build files it already loaded, since the worker wasn't
+// running yet to see them go by on the first visit
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "cache-urls") return;
+  event.waitUntil(
+    caches.open(CACHE).then((cache) =>
+      Promise.all(event.data.urls.map((url) => cache.add(url).catch(() => {})))
+    )
+  );
+});
+
+const put = (request, response) => {
+  if (!response.ok) return response;
+  const copy = response.clone();
+  caches.open(CACHE).then((cache) => cache.put(request, copy));
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+  // Client-side navigation payloads; the shell page covers these offline
+  if (request.headers.has("RSC")) return;
+
+  // Pages: the latest from the network, the cached shell without one.
+  // Sessions live in the query string, so any "/?v=..." falls back to "/".
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => (url.pathname === "/" ? put("/", response) : response))
+        .catch(() =>
+          caches.match(request, { ignoreSearch: true }).then((cached) => cached ?? caches.match("/"))
+        )
+    );
+    return;
+  }
+
+  // Build files have hashed names and never change
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached ?? fetch(request).then((response) => put(request, response)))
+    );
+    return;
+  }
+
+  // Everything else: serve the cached copy and refresh it in the background
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      const network = fetch(request).then((response) => put(request, response));
+      if (!cached) return network;
+      network.catch(() => {});
+      return cached;
+    })
+  );
+});